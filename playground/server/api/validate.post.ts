@@ -1,29 +1,18 @@
-import { writeFile } from "fs/promises"
+import { z } from "zod"
 
-import { getComponentMeta } from "../../../src/parser"
-import { propsToJsonSchema } from "../../../src/utils"
-import { jsonSchemaToZod } from "json-schema-to-zod"
+import { getComponentMetaFromSource } from "../../../src/parser"
+import { propsToZod } from "../../../src/utils"
 import { formatJS } from "../utils/format"
 
 export default eventHandler(async (event) => {
   const { component, data, strict } = await readBody(event)
-  const rootDir = process.cwd()
 
-  await writeFile(`node_modules/test.vue`, component)
-  const meta = getComponentMeta('node_modules/test.vue')
-  const jsonSchema = propsToJsonSchema(meta.props)
-  let zodString = jsonSchemaToZod(jsonSchema, { module: "esm", withJsdocs: true }).trim()
-  if (strict) {
-    zodString = zodString + '.strict()'
-  }
-  zodString = await formatJS(zodString)
-
-
-  await writeFile(`node_modules/test.zod.mjs`, zodString)
-  const zod = await import(`${rootDir}/node_modules/test.zod.mjs?time=${Date.now()}`)
+  const meta = getComponentMetaFromSource(component, { filename: 'components/Validate.vue' })
+  const zodSchema = propsToZod(meta.props, { z, strict })
+  const zodString = await formatJS(`import { z } from "zod"\n\nexport default ${propsToZod(meta.props, { strict })}`)
 
   try {
-    const validation = zod.default.safeParse(data)
+    const validation = zodSchema.safeParse(data)
     return {
       success: true,
       validation,
@@ -5,14 +5,17 @@ import {
   defineNuxtModule,
   tryResolveModule,
   addImportsDir,
+  addServerImportsDir,
   addTemplate
 } from '@nuxt/kit'
 import { join } from 'pathe'
+import { defu } from 'defu'
 import type { ComponentsDir, Component } from '@nuxt/schema'
-import { metaPlugin } from './utils/unplugin'
+import { metaPlugin, extendMetaMacroPlugin } from './utils/unplugin'
 import { useComponentMetaParser } from './parser/meta-parser'
 import type { ComponentMetaParser } from './parser/meta-parser';
 import { loadExternalSources } from './utils/loader'
+import { useContentValidation } from './utils/content'
 import type { NuxtComponentMeta, ComponentMetaParserOptions, ModuleOptions } from './types/index'
 import { defaultTransformers } from './parser/transformers'
 
@@ -31,6 +34,7 @@ export default defineNuxtModule<ModuleOptions>({
     components: [],
     metaSources: [],
     silent: true,
+    cache: true,
     exclude: [
       'nuxt/dist/app/components/welcome',
       'nuxt/dist/app/components/client-only',
@@ -66,7 +70,8 @@ export default defineNuxtModule<ModuleOptions>({
         ]
       }
     },
-    globalsOnly: false
+    globalsOnly: false,
+    runtimeSource: 'api'
   }),
   async setup (options, nuxt) {
     const resolver = createResolver(import.meta.url)
@@ -93,6 +98,14 @@ export default defineNuxtModule<ModuleOptions>({
     let transformers = options?.transformers || []
     transformers = await nuxt.callHook('component-meta:transformers' as any, transformers) || transformers
 
+    // Validate components usages in @nuxt/content files
+    const contentValidation = options.validateContent
+      ? useContentValidation(nuxt, {
+        mode: options.validateContent === 'error' ? 'error' : 'warn',
+        cacheDir: options.cacheDir || join(options.rootDir || nuxt.options.rootDir, 'node_modules/.cache/nuxt-component-meta')
+      })
+      : undefined
+
     let parser: ComponentMetaParser
     const parserOptions: ComponentMetaParserOptions = {
       ...options,
@@ -101,7 +114,9 @@ export default defineNuxtModule<ModuleOptions>({
       transformers,
       overrides: options.overrides || {},
       beforeWrite: async (schema: NuxtComponentMeta) => {
-        return await nuxt.callHook('component-meta:schema' as any, schema) || schema
+        schema = await nuxt.callHook('component-meta:schema' as any, schema) || schema
+        contentValidation?.validate(schema)
+        return schema
       }
     }
 
@@ -154,7 +169,11 @@ export default defineNuxtModule<ModuleOptions>({
     })
 
     // Add useComponentMeta
+    nuxt.options.runtimeConfig.public.componentMeta = defu(nuxt.options.runtimeConfig.public.componentMeta, {
+      runtimeSource: options.runtimeSource
+    })
     addImportsDir(resolver.resolve('./runtime/composables'))
+    addServerImportsDir(resolver.resolve('./runtime/server/utils'))
 
     // addTemplate({
     //   filename: 'component-meta.mjs',
@@ -166,6 +185,7 @@ export default defineNuxtModule<ModuleOptions>({
       filename: 'component-meta.d.ts',
       getContents: () => [
         "import type { ComponentData } from 'nuxt-component-meta'",
+        "export type { ComponentMetaExtension } from 'nuxt-component-meta'",
         `export type NuxtComponentMetaNames = ${
           [...components, ...Object.values(metaSources)].map(c => `'${c.pascalName}'`).join(' | ')
         }`,
@@ -176,14 +196,40 @@ export default defineNuxtModule<ModuleOptions>({
       write: true
     })
 
+    addTemplate({
+      filename: 'component-meta.schema.d.ts',
+      getContents: () => [
+        "import type { JsonSchema } from 'nuxt-component-meta'",
+        "import type { NuxtComponentMetaNames } from './component-meta'",
+        'declare const schemas: Record<NuxtComponentMetaNames, JsonSchema>',
+        'export { schemas as default, schemas }'
+      ].join('\n'),
+      write: true
+    })
+
+    addTemplate({
+      filename: 'component-meta/index.d.ts',
+      getContents: () => [
+        "import type { ComponentData } from 'nuxt-component-meta'",
+        "import type { NuxtComponentMetaNames } from '../component-meta'",
+        'declare const chunks: Record<NuxtComponentMetaNames, () => Promise<{ default: ComponentData }>>',
+        'export { chunks as default, chunks }'
+      ].join('\n'),
+      write: true
+    })
+
     // Vite plugin
     nuxt.hook('vite:extend', (vite: any) => {
       vite.config.plugins = vite.config.plugins || []
       vite.config.plugins.push(metaPlugin.vite({ parser, parserOptions }))
+      vite.config.plugins.push(extendMetaMacroPlugin.vite())
     })
 
     // Inject output alias
     nuxt.options.alias = nuxt.options.alias || {}
+    // Declared first so they are not resolved as sub paths of `#nuxt-component-meta`
+    nuxt.options.alias['#nuxt-component-meta/schema'] = join(nuxt.options.buildDir, 'component-meta.schema.mjs')
+    nuxt.options.alias['#nuxt-component-meta/chunks'] = join(nuxt.options.buildDir, 'component-meta/index.mjs')
     nuxt.options.alias['#nuxt-component-meta'] = join(nuxt.options.buildDir, 'component-meta.mjs')
     nuxt.options.alias['#nuxt-component-meta/types'] = join(nuxt.options.buildDir, 'component-meta.d.ts')
 
@@ -198,7 +244,15 @@ export default defineNuxtModule<ModuleOptions>({
       nitroConfig.handlers = nitroConfig.handlers || []
       nitroConfig.virtual = nitroConfig.virtual || {}
       nitroConfig.virtual['#nuxt-component-meta/nitro'] = () => readFileSync(join(nuxt.options.buildDir, '/component-meta.mjs'), 'utf-8')
+      nitroConfig.virtual['#nuxt-component-meta/nitro/schema'] = () => readFileSync(join(nuxt.options.buildDir, '/component-meta.schema.mjs'), 'utf-8')
     })
+    // Emit metas as static files
+    nuxt.hook('nitro:build:public-assets', (nitro) => {
+      if (options.runtimeSource === 'prerendered-json' && parser) {
+        parser.writeJsonOutput(join(nitro.options.output.publicDir, 'component-meta'))
+      }
+    })
+
     addServerHandler({
       method: 'get',
       route: '/api/component-meta',
@@ -209,6 +263,16 @@ export default defineNuxtModule<ModuleOptions>({
       route: '/api/component-meta.json',
       handler: resolver.resolve('./runtime/server/api/component-meta.json.get')
     })
+    addServerHandler({
+      method: 'get',
+      route: '/api/component-meta/schema.json',
+      handler: resolver.resolve('./runtime/server/api/component-meta-schema.get')
+    })
+    addServerHandler({
+      method: 'get',
+      route: '/api/component-meta/:component/schema.json',
+      handler: resolver.resolve('./runtime/server/api/component-meta-schema.get')
+    })
     addServerHandler({
       method: 'get',
       route: '/api/component-meta/:component?',
@@ -0,0 +1,85 @@
+import fs, { existsSync } from 'fs'
+import { dirname, join } from 'pathe'
+import { hash } from 'ohash'
+import { resolvePathSync } from 'mlly'
+
+export interface ParseCacheOptions {
+  cacheDir: string
+  /**
+   * Project root, where the lockfile is looked up from.
+   */
+  rootDir: string
+  /**
+   * Parser settings the cached metas depend on; any change invalidates every entry.
+   */
+  key: Record<string, unknown>
+}
+
+/**
+ * Content-addressed on-disk cache of parsed components metas.
+ *
+ * Entries are keyed on the component path and source hash, scoped by a hash of
+ * the parser settings, the installed `vue-component-meta` version and the project lockfile,
+ * as types resolved from `node_modules` are not tracked as dependencies.
+ */
+export function createParseCache ({ cacheDir, rootDir, key }: ParseCacheOptions) {
+  const scope = hash({ ...key, version: getVueComponentMetaVersion(), lockfile: getLockfileHash(rootDir) })
+
+  const getEntryPath = (path: string, codeHash: string) => join(cacheDir, `${hash([scope, path, codeHash])}.json`)
+
+  const get = (path: string, codeHash: string) => {
+    const entryPath = getEntryPath(path, codeHash)
+    if (!existsSync(entryPath)) {
+      return
+    }
+    try {
+      return JSON.parse(fs.readFileSync(entryPath, 'utf-8'))
+    } catch {
+      // Corrupted entry, will be overwritten on next parse
+    }
+  }
+
+  const set = (path: string, codeHash: string, meta: unknown) => {
+    try {
+      if (!existsSync(cacheDir)) { fs.mkdirSync(cacheDir, { recursive: true }) }
+      fs.writeFileSync(getEntryPath(path, codeHash), JSON.stringify(meta), 'utf-8')
+    } catch {
+      // Cache is best effort
+    }
+  }
+
+  return { get, set }
+}
+
+export type ParseCache = ReturnType<typeof createParseCache>
+
+function getVueComponentMetaVersion (): string {
+  try {
+    const pkgPath = resolvePathSync('vue-component-meta/package.json', { url: import.meta.url })
+    return JSON.parse(fs.readFileSync(pkgPath, 'utf-8')).version
+  } catch {
+    return 'unknown'
+  }
+}
+
+const lockfiles = ['pnpm-lock.yaml', 'package-lock.json', 'yarn.lock', 'bun.lock', 'bun.lockb', 'deno.lock']
+
+/**
+ * Hash the lockfile of the nearest directory having one, so upgrading a package invalidates the cache.
+ */
+function getLockfileHash (rootDir: string): string | undefined {
+  let dir = rootDir
+  while (true) {
+    for (const lockfile of lockfiles) {
+      const path = join(dir, lockfile)
+      if (existsSync(path)) {
+        return hash(fs.readFileSync(path))
+      }
+    }
+    const parent = dirname(dir)
+    if (parent === dir) {
+      return
+    }
+    dir = parent
+  }
+}
@@ -1,3 +1,4 @@
+import ts from 'typescript'
 import { createCheckerByJson } from "vue-component-meta"
 import type { MetaCheckerOptions } from 'vue-component-meta'
 import { existsSync, readFileSync } from "fs"
@@ -11,19 +12,33 @@ export interface Options {
   include?: string[]
 }
 
-export function createMetaChecker(opts: Options) {
-  const baseUrl = joinURL(opts.rootDir, '.nuxt');
-  let paths: Record<string, string[]> | undefined = undefined;
+export interface TsconfigPaths {
+  baseUrl: string
+  paths: Record<string, string[]>
+}
+
+/**
+ * Load the Nuxt aliases (e.g. `~/`, `@/`, `#shared`) from the generated `.nuxt` tsconfig files.
+ */
+export function loadTsconfigPaths(rootDir: string): TsconfigPaths | undefined {
+  const baseUrl = joinURL(rootDir, '.nuxt');
   try {
     const appTsconfig = JSON.parse(readFileSync(joinURL(baseUrl, 'tsconfig.app.json'), 'utf8'));
     const sharedTsconfig = JSON.parse(readFileSync(joinURL(baseUrl, 'tsconfig.shared.json'), 'utf8'));
-    paths = {
-      ...appTsconfig.compilerOptions.paths,
-      ...sharedTsconfig.compilerOptions.paths,
+    return {
+      baseUrl,
+      paths: {
+        ...appTsconfig.compilerOptions.paths,
+        ...sharedTsconfig.compilerOptions.paths,
+      }
     }
   } catch {
     // Failed to load tsconfig.app.json or tsconfig.shared.json, ignore
   }
+}
+
+export function createMetaChecker(opts: Options) {
+  const tsconfigPaths = loadTsconfigPaths(opts.rootDir);
   return createCheckerByJson(
     opts.rootDir,
     {
@@ -36,7 +51,7 @@ export function createMetaChecker(opts: Options) {
           : `${path}/**/*`
       }),
       exclude: [],
-      ...(paths ? { compilerOptions: { baseUrl, paths } } : {})
+      ...(tsconfigPaths ? { compilerOptions: tsconfigPaths } : {})
     },
     opts.checkerOptions || {
       forceUseTs: true,
@@ -68,4 +83,66 @@ export function tryResolveTypesDeclaration(fullPath: string): string {
   }
 
   return resolvedPath
-}
\ No newline at end of file
+}
+
+/**
+ * Collect the local source files a component's types are resolved from.
+ *
+ * Imports are followed through aliases (e.g. `#imports` re-exports) down to the file
+ * declaring each imported symbol, then recursively into that file's own imports.
+ * Files from `node_modules` are ignored as they are not expected to change.
+ */
+export function getComponentDependencies(checker: ReturnType<typeof createCheckerByJson>, fileName: string): string[] {
+  const program = checker.getProgram()
+  const sourceFile = program?.getSourceFile(fileName)
+  if (!program || !sourceFile) {
+    return []
+  }
+
+  const typeChecker = program.getTypeChecker()
+  const dependencies = new Set<string>()
+  const visited = new Set<string>([sourceFile.fileName])
+
+  const addSymbolFiles = (symbol: ts.Symbol | undefined) => {
+    if (!symbol) {
+      return
+    }
+    if (symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = typeChecker.getAliasedSymbol(symbol)
+    }
+    for (const declaration of symbol.declarations || []) {
+      const file = declaration.getSourceFile()
+      if (!file.fileName.includes('/node_modules/') && !visited.has(file.fileName)) {
+        visited.add(file.fileName)
+        dependencies.add(file.fileName)
+        visit(file)
+      }
+    }
+  }
+
+  const visit = (file: ts.SourceFile) => {
+    for (const statement of file.statements) {
+      if (ts.isImportDeclaration(statement)) {
+        const clause = statement.importClause
+        if (clause?.name) {
+          addSymbolFiles(typeChecker.getSymbolAtLocation(clause.name))
+        }
+        if (clause?.namedBindings) {
+          if (ts.isNamedImports(clause.namedBindings)) {
+            for (const element of clause.namedBindings.elements) {
+              addSymbolFiles(typeChecker.getSymbolAtLocation(element.name))
+            }
+          } else {
+            addSymbolFiles(typeChecker.getSymbolAtLocation(statement.moduleSpecifier))
+          }
+        }
+      } else if (ts.isExportDeclaration(statement) && statement.moduleSpecifier) {
+        addSymbolFiles(typeChecker.getSymbolAtLocation(statement.moduleSpecifier))
+      }
+    }
+  }
+
+  visit(sourceFile)
+
+  return [...dependencies]
+}
@@ -0,0 +1,27 @@
+import type { ComponentMeta } from 'vue-component-meta'
+import { evaluateExpression } from './extend'
+import type { EvaluateOptions } from './extend'
+
+/**
+ * Statically evaluate props default values from the component source.
+ *
+ * The evaluated value is stored as `defaultValue` next to the `default` code, defaults that are
+ * not statically resolvable (e.g. `new Date()`) are flagged by keeping their code as `defaultRaw`.
+ */
+export function resolveDefaultValues (meta: ComponentMeta, code: string, filePath: string, options: EvaluateOptions = {}): ComponentMeta {
+  for (const prop of meta.props) {
+    if (typeof prop.default !== 'string' || 'defaultValue' in prop || 'defaultRaw' in prop) {
+      continue
+    }
+    try {
+      const value = evaluateExpression(prop.default, code, filePath, options)
+      if (value !== undefined) {
+        (prop as any).defaultValue = value
+      }
+    } catch {
+      // Not statically resolvable
+      (prop as any).defaultRaw = prop.default
+    }
+  }
+  return meta
+}
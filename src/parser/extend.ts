@@ -0,0 +1,337 @@
+import ts from 'typescript'
+import { existsSync, readFileSync } from 'fs'
+import { dirname, resolve } from 'pathe'
+import type { TsconfigPaths } from './checker'
+
+const scriptExtensions = ['', '.ts', '.js', '.mts', '.mjs', '/index.ts', '/index.js']
+
+export interface EvaluateOptions {
+  /**
+   * Aliases imports are resolved through, besides relative ones.
+   */
+  tsconfigPaths?: TsconfigPaths
+}
+
+interface EvaluateContext extends EvaluateOptions {
+  /**
+   * Identifiers being resolved, to stop on circular references.
+   */
+  resolving: Set<string>
+}
+
+/**
+ * Statically extract the argument of `extendComponentMeta()` calls from a component source.
+ *
+ * Supports literals, object and array literals with spreads, and `const` or `enum` values declared
+ * in the component or imported from relative or aliased modules. Any other expression throws.
+ */
+export function extractExtendedComponentMeta (code: string, filePath: string, options: EvaluateOptions = {}): Record<string, any> | null {
+  if (!code.includes('extendComponentMeta')) {
+    return null
+  }
+
+  const sourceFile = createSourceFile(filePath, getScriptContent(code, filePath))
+  let meta: Record<string, any> | null = null
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'extendComponentMeta') {
+      const argument = node.arguments[0]
+      if (argument) {
+        let value: any
+        try {
+          value = evaluate(argument, sourceFile, { ...options, resolving: new Set() })
+        } catch (error) {
+          throw new Error(`extendComponentMeta() argument cannot be evaluated: ${error instanceof Error ? error.message : error}`)
+        }
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          throw new Error(`extendComponentMeta() expects an object, ${formatLocation(argument, sourceFile)}`)
+        }
+        meta = { ...meta, ...value }
+      }
+      return
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  return meta
+}
+
+/**
+ * Remove `extendComponentMeta()` statements from a component source, keeping lines in place.
+ */
+export function stripExtendComponentMeta (code: string, filePath: string): string {
+  if (!code.includes('extendComponentMeta')) {
+    return code
+  }
+
+  const sourceFile = createSourceFile(filePath, getScriptContent(code, filePath))
+  const ranges: [number, number][] = []
+
+  const visit = (node: ts.Node) => {
+    if (ts.isExpressionStatement(node) && ts.isCallExpression(node.expression) && ts.isIdentifier(node.expression.expression) && node.expression.expression.text === 'extendComponentMeta') {
+      ranges.push([node.getStart(sourceFile), node.getEnd()])
+      return
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  // Script content offsets match the original source, see `getScriptContent()`
+  for (const [start, end] of ranges.reverse()) {
+    code = code.slice(0, start) + code.slice(start, end).replace(/[^\n]/g, ' ') + code.slice(end)
+  }
+  return code
+}
+
+/**
+ * Statically evaluate an expression, such as a prop default value, in the scope of a component source.
+ *
+ * Factory functions without parameters are unwrapped to their returned value. Any other non-static expression throws.
+ */
+export function evaluateExpression (expression: string, code: string, filePath: string, options: EvaluateOptions = {}): any {
+  const content = getScriptContent(code, filePath)
+  const sourceFile = createSourceFile(filePath, `${content}\n;(${expression})`)
+  const statement = sourceFile.statements.at(-1)
+  if (!statement || !ts.isExpressionStatement(statement) || statement.getStart(sourceFile) < content.length) {
+    throw new Error(`Cannot parse \`${expression}\` in ${filePath}`)
+  }
+
+  let node = statement.expression
+  while (ts.isParenthesizedExpression(node)) {
+    node = node.expression
+  }
+  if ((ts.isArrowFunction(node) || ts.isFunctionExpression(node)) && node.parameters.length === 0) {
+    const body = ts.isBlock(node.body)
+      ? node.body.statements.length === 1 && ts.isReturnStatement(node.body.statements[0]!) ? node.body.statements[0].expression : undefined
+      : node.body
+    if (!body) {
+      throw new Error(`Only factories returning a value are supported, ${formatLocation(node, sourceFile)}`)
+    }
+    node = body
+  }
+
+  return evaluate(node, sourceFile, { ...options, resolving: new Set() })
+}
+
+function getScriptContent (code: string, filePath: string): string {
+  if (!filePath.endsWith('.vue')) {
+    return code
+  }
+  // Blank everything outside of script blocks to keep lines in sync with the SFC
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ')
+  let content = ''
+  let index = 0
+  for (const match of code.matchAll(/(<script\b[^>]*>)([\s\S]*?)<\/script>/g)) {
+    const start = match.index! + match[1]!.length
+    content += blank(code.slice(index, start)) + match[2]
+    index = start + match[2]!.length
+  }
+  return content + blank(code.slice(index))
+}
+
+function createSourceFile (filePath: string, content: string) {
+  return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS)
+}
+
+function formatLocation (node: ts.Node, sourceFile: ts.SourceFile) {
+  const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile))
+  return `found \`${node.getText(sourceFile)}\` in ${sourceFile.fileName}:${line + 1}`
+}
+
+function evaluate (node: ts.Expression, sourceFile: ts.SourceFile, ctx: EvaluateContext): any {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isTypeAssertionExpression(node)) {
+    return evaluate(node.expression, sourceFile, ctx)
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text
+  }
+  if (ts.isNumericLiteral(node)) {
+    return Number(node.text)
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) {
+    return true
+  }
+  if (node.kind === ts.SyntaxKind.FalseKeyword) {
+    return false
+  }
+  if (node.kind === ts.SyntaxKind.NullKeyword) {
+    return null
+  }
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+    return -Number(node.operand.text)
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.flatMap((element) => {
+      if (ts.isSpreadElement(element)) {
+        const value = evaluate(element.expression, sourceFile, ctx)
+        if (!Array.isArray(value)) {
+          throw new Error(`Only arrays can be spread in arrays, ${formatLocation(element, sourceFile)}`)
+        }
+        return value
+      }
+      return [evaluate(element, sourceFile, ctx)]
+    })
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    const object: Record<string, any> = {}
+    for (const property of node.properties) {
+      if (ts.isPropertyAssignment(property)) {
+        object[getPropertyName(property.name, sourceFile, ctx)] = evaluate(property.initializer, sourceFile, ctx)
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        object[property.name.text] = evaluate(property.name, sourceFile, ctx)
+      } else if (ts.isSpreadAssignment(property)) {
+        const value = evaluate(property.expression, sourceFile, ctx)
+        if (!value || typeof value !== 'object') {
+          throw new Error(`Only objects can be spread in objects, ${formatLocation(property, sourceFile)}`)
+        }
+        Object.assign(object, value)
+      } else {
+        throw new Error(`Only static values can be evaluated, ${formatLocation(property, sourceFile)}`)
+      }
+    }
+    return object
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    const object = evaluate(node.expression, sourceFile, ctx)
+    return object?.[node.name.text]
+  }
+  if (ts.isElementAccessExpression(node)) {
+    const object = evaluate(node.expression, sourceFile, ctx)
+    return object?.[evaluate(node.argumentExpression, sourceFile, ctx)]
+  }
+  if (ts.isIdentifier(node)) {
+    if (node.text === 'undefined') {
+      return undefined
+    }
+    return resolveIdentifier(node.text, node, sourceFile, ctx)
+  }
+
+  throw new Error(`Only static values can be evaluated, ${formatLocation(node, sourceFile)}`)
+}
+
+function getPropertyName (name: ts.PropertyName, sourceFile: ts.SourceFile, ctx: EvaluateContext): string {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isNoSubstitutionTemplateLiteral(name)) {
+    return name.text
+  }
+  if (ts.isComputedPropertyName(name)) {
+    return String(evaluate(name.expression, sourceFile, { ...ctx, resolving: new Set() }))
+  }
+  throw new Error(`Only static keys can be evaluated, ${formatLocation(name, sourceFile)}`)
+}
+
+/**
+ * Resolve an identifier to a top-level `const` or `enum` declared in the file or imported from a relative or aliased module.
+ */
+function resolveIdentifier (name: string, node: ts.Node, sourceFile: ts.SourceFile, ctx: EvaluateContext): any {
+  const id = `${sourceFile.fileName}#${name}`
+  if (ctx.resolving.has(id)) {
+    throw new Error(`Circular reference to \`${name}\` in ${sourceFile.fileName}`)
+  }
+  ctx = { ...ctx, resolving: new Set(ctx.resolving).add(id) }
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || declaration.name.text !== name) {
+          continue
+        }
+        if (!(statement.declarationList.flags & ts.NodeFlags.Const) || !declaration.initializer) {
+          throw new Error(`Only \`const\` values can be referenced, ${formatLocation(node, sourceFile)}`)
+        }
+        return evaluate(declaration.initializer, sourceFile, ctx)
+      }
+    }
+
+    if (ts.isEnumDeclaration(statement) && statement.name.text === name) {
+      return evaluateEnum(statement, sourceFile, ctx)
+    }
+
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const namedBindings = statement.importClause?.namedBindings
+      if (!namedBindings || !ts.isNamedImports(namedBindings)) {
+        continue
+      }
+      const specifier = namedBindings.elements.find(element => element.name.text === name)
+      if (specifier) {
+        const imported = loadModule(statement.moduleSpecifier.text, sourceFile, ctx)
+        if (!imported) {
+          throw new Error(`Only values imported from relative or aliased modules can be referenced, ${formatLocation(node, sourceFile)}`)
+        }
+        return resolveExport((specifier.propertyName || specifier.name).text, imported, ctx)
+      }
+    }
+  }
+
+  throw new Error(`Cannot resolve \`${name}\`, ${formatLocation(node, sourceFile)}`)
+}
+
+function evaluateEnum (declaration: ts.EnumDeclaration, sourceFile: ts.SourceFile, ctx: EvaluateContext): Record<string, string | number> {
+  const members: Record<string, string | number> = {}
+  let next = 0
+  for (const member of declaration.members) {
+    const value = member.initializer ? evaluate(member.initializer, sourceFile, ctx) : next
+    members[getPropertyName(member.name, sourceFile, ctx)] = value
+    next = typeof value === 'number' ? value + 1 : Number.NaN
+  }
+  return members
+}
+
+function resolveExport (name: string, sourceFile: ts.SourceFile, ctx: EvaluateContext): any {
+  for (const statement of sourceFile.statements) {
+    // export { a as b } from './module'
+    if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      const specifier = statement.exportClause.elements.find(element => element.name.text === name)
+      if (specifier) {
+        const localName = (specifier.propertyName || specifier.name).text
+        if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+          const reexported = loadModule(statement.moduleSpecifier.text, sourceFile, ctx)
+          if (!reexported) {
+            throw new Error(`Cannot resolve \`${statement.moduleSpecifier.text}\` from ${sourceFile.fileName}`)
+          }
+          return resolveExport(localName, reexported, ctx)
+        }
+        return resolveIdentifier(localName, specifier, sourceFile, ctx)
+      }
+    }
+  }
+  return resolveIdentifier(name, sourceFile, sourceFile, ctx)
+}
+
+function loadModule (specifier: string, from: ts.SourceFile, ctx: EvaluateContext): ts.SourceFile | undefined {
+  if (!specifier.startsWith('.')) {
+    const path = resolveAlias(specifier, from, ctx)
+    return path ? createSourceFile(path, readFileSync(path, 'utf-8')) : undefined
+  }
+  const base = resolve(dirname(from.fileName), specifier).replace(/\.[cm]?js$/, '')
+  for (const extension of scriptExtensions) {
+    const path = base + extension
+    if (existsSync(path)) {
+      try {
+        return createSourceFile(path, readFileSync(path, 'utf-8'))
+      } catch {
+        // Not a file, try next candidate
+      }
+    }
+  }
+}
+
+/**
+ * Resolve an aliased import (e.g. `~/utils`, `#shared`) to a local source file through tsconfig `paths`.
+ *
+ * Packages and declaration files are not resolved, as they hold no evaluable values.
+ */
+function resolveAlias (specifier: string, from: ts.SourceFile, { tsconfigPaths }: EvaluateContext): string | undefined {
+  if (!tsconfigPaths) {
+    return
+  }
+  const { resolvedModule } = ts.resolveModuleName(specifier, from.fileName, {
+    ...tsconfigPaths,
+    allowJs: true,
+    moduleResolution: ts.ModuleResolutionKind.Bundler
+  }, ts.sys)
+  if (!resolvedModule || resolvedModule.isExternalLibraryImport || resolvedModule.resolvedFileName.endsWith('.d.ts')) {
+    return
+  }
+  return resolvedModule.resolvedFileName
+}
@@ -1,11 +1,14 @@
 import type { ComponentMeta } from 'vue-component-meta'
 import { refineMeta } from "./utils"
+import { resolveDefaultValues } from "./defaults"
 import { tryResolveTypesDeclaration, createMetaChecker  } from "./checker"
 import { defaultTransformers, type ComponentMetaTransformer } from './transformers'
-import { isAbsolute, join } from "pathe"
+import { basename, isAbsolute, join } from "pathe"
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs'
 import { withBase } from "ufo"
 import { hash } from "crypto"
+import { pascalCase } from 'scule'
+import { globSync, isDynamicPattern } from 'tinyglobby'
 
 export interface Options {
   rootDir: string
@@ -17,29 +20,188 @@ export interface Options {
   transformers?: ComponentMetaTransformer[]
 }
 
+export interface ComponentMetaExtractorOptions extends Partial<Options> {
+  /**
+   * Component paths or glob patterns, relative to `rootDir`.
+   */
+  components?: string | string[]
+}
+
+export interface ComponentMetaFromSourceOptions extends Partial<Options> {
+  /**
+   * Virtual file name of the component, relative to `rootDir`.
+   *
+   * @default 'component.vue'
+   */
+  filename?: string
+}
+
 export function getComponentMeta(component: string, options?: Options): ComponentMeta {
+  const opts = resolveOptions(options)
+  const { resolvedPath, code } = readComponent(component, opts)
+
+  const cachePath = opts.cache ? getCachePath(component, code, opts) : undefined
+  if (cachePath && existsSync(cachePath)) {
+    return JSON.parse(readFileSync(cachePath, { encoding: 'utf8', flag: 'r' })) as ComponentMeta
+  }
+
+  const componentMeta = _getComponentMeta(resolvedPath, code, opts)
+
+  if (cachePath) {
+    writeCache(cachePath, componentMeta, opts)
+  }
+
+  return componentMeta
+}
+
+/**
+ * Get component meta from in-memory source code, without reading or writing the file system.
+ *
+ * The source is parsed under a virtual `filename`, relative to `rootDir`, so relative imports keep resolving.
+ * Each call uses its own checker, making concurrent calls isolated from each other.
+ */
+export function getComponentMetaFromSource(code: string, options?: ComponentMetaFromSourceOptions): ComponentMeta {
+  const opts = resolveOptions(options)
+  const filename = options?.filename || 'component.vue'
+  const fullPath = isAbsolute(filename) ? filename : withBase(filename, opts.rootDir)
+  const { resolvedPath, code: transformedCode } = readComponent(fullPath, opts, new Map([[tryResolveTypesDeclaration(fullPath), code]]))
+
+  const cachePath = opts.cache ? getCachePath(filename, transformedCode, opts) : undefined
+  if (cachePath && existsSync(cachePath)) {
+    return JSON.parse(readFileSync(cachePath, { encoding: 'utf8', flag: 'r' })) as ComponentMeta
+  }
+
+  const componentMeta = _getComponentMeta(resolvedPath, transformedCode, opts)
+
+  if (cachePath) {
+    writeCache(cachePath, componentMeta, opts)
+  }
+
+  return componentMeta
+}
+
+/**
+ * Create an extractor keeping a single checker alive to parse many components.
+ *
+ * Results are keyed by component name, inferred from the file name.
+ */
+export function createComponentMetaExtractor(options?: ComponentMetaExtractorOptions) {
+  const opts = resolveOptions(options)
+  const patterns = typeof options?.components === 'string' ? [options.components] : (options?.components || [])
+
+  // Registered components, by name
+  const components = new Map<string, string>()
+  // In-memory sources set through `update()`, by resolved path
+  const sources = new Map<string, string>()
+  let checker: ReturnType<typeof createMetaChecker> | undefined
+
+  for (const pattern of patterns) {
+    const paths = isDynamicPattern(pattern)
+      ? globSync(pattern, { cwd: opts.rootDir, absolute: true, ignore: ['**/node_modules/**'] })
+      : [isAbsolute(pattern) ? pattern : withBase(pattern, opts.rootDir)]
+    for (const path of paths.sort()) {
+      const name = getComponentName(path)
+      if (!components.has(name)) {
+        components.set(name, path)
+      }
+    }
+  }
+
+  const resolvePath = (component: string) => components.get(component) || component
+
+  const get = (component: string): ComponentMeta => {
+    const path = resolvePath(component)
+    const { resolvedPath, code } = readComponent(path, opts, sources)
+
+    const cachePath = opts.cache ? getCachePath(path, code, opts) : undefined
+    if (cachePath && existsSync(cachePath)) {
+      return JSON.parse(readFileSync(cachePath, { encoding: 'utf8', flag: 'r' })) as ComponentMeta
+    }
+
+    checker ||= createMetaChecker({
+      rootDir: opts.rootDir,
+      include: [...components.values()].map(tryResolveTypesDeclaration)
+    })
+    checker.updateFile(resolvedPath, code)
+
+    const componentMeta = resolveDefaultValues(refineMeta(checker.getComponentMeta(resolvedPath)), code, resolvedPath)
+
+    if (cachePath) {
+      writeCache(cachePath, componentMeta, opts)
+    }
+
+    return componentMeta
+  }
+
+  const getAll = (): Record<string, ComponentMeta> => {
+    return Object.fromEntries(
+      [...components.keys()].map(name => [name, get(name)])
+    )
+  }
+
+  /**
+   * Replace a component source in memory, without touching the file on disk.
+   */
+  const update = (component: string, code: string): ComponentMeta => {
+    const path = resolvePath(component)
+    const fullPath = isAbsolute(path) ? path : withBase(path, opts.rootDir)
+    sources.set(tryResolveTypesDeclaration(fullPath), code)
+    if (!components.has(getComponentName(fullPath))) {
+      components.set(getComponentName(fullPath), fullPath)
+    }
+    return get(fullPath)
+  }
+
+  const dispose = () => {
+    checker?.clearCache()
+    checker = undefined
+    components.clear()
+    sources.clear()
+  }
+
+  return {
+    get components () { return Object.fromEntries(components) },
+    get,
+    getAll,
+    update,
+    dispose
+  }
+}
+
+export type ComponentMetaExtractor = ReturnType<typeof createComponentMetaExtractor>
+
+function resolveOptions(options?: Partial<Options>) {
   const rootDir = options?.rootDir ?? process.cwd()
-  const opts = {
+  return {
     cache: false,
-    rootDir,
     cacheDir: join(rootDir, ".data/nuxt-component-meta"),
     ...options,
+    rootDir,
     transformers: [
       ...defaultTransformers,
       ...(options?.transformers || [])
     ]
   }
+}
+
+/**
+ * Read & optionally transform code before parsing (also used for cache key).
+ */
+function readComponent(component: string, opts: ReturnType<typeof resolveOptions>, sources?: Map<string, string>) {
   const fullPath = isAbsolute(component) ? component : withBase(component, opts.rootDir)
   const resolvedPath = tryResolveTypesDeclaration(fullPath)
   const initialComponent = { fullPath, filePath: resolvedPath }
 
-  // Read & optionally transform code before parsing (also used for cache key).
   let code: string
   let transformedComponent: any = initialComponent
-  try {
-    code = readFileSync(resolvedPath, { encoding: 'utf8', flag: 'r' })
-  } catch (error) {
-    throw new Error(`Error reading file ${resolvedPath}: ${error}`)
+  if (sources?.has(resolvedPath)) {
+    code = sources.get(resolvedPath)!
+  } else {
+    try {
+      code = readFileSync(resolvedPath, { encoding: 'utf8', flag: 'r' })
+    } catch (error) {
+      throw new Error(`Error reading file ${resolvedPath}: ${error}`)
+    }
   }
 
   if (opts.transformers.length) {
@@ -50,27 +212,24 @@ export function getComponentMeta(component: string, options?: Options): Componen
     }
   }
 
-  let cachePath = undefined
-  if (opts.cache) {
-    const cacheId = component.split('/').pop()?.replace(/\./g, '_') + '--' + hash('sha1', code).slice(0, 12)
-    cachePath = join(opts.cacheDir, `${cacheId}.json`)
-
-    if (existsSync(cachePath)) {
-      return JSON.parse(readFileSync(cachePath, { encoding: 'utf8', flag: 'r' })) as ComponentMeta
-    }
-  }
+  return { fullPath, resolvedPath, code }
+}
 
-  const componentMeta = _getComponentMeta(resolvedPath, code, opts)
+function getCachePath(component: string, code: string, opts: ReturnType<typeof resolveOptions>) {
+  const cacheId = component.split('/').pop()?.replace(/\./g, '_') + '--' + hash('sha1', code).slice(0, 12)
+  return join(opts.cacheDir, `${cacheId}.json`)
+}
 
-  if (cachePath) {
-    const cache = JSON.stringify({ cachedAt: Date.now(), ...componentMeta })
-    if (!existsSync(opts.cacheDir)) {
-      mkdirSync(opts.cacheDir, { recursive: true })
-    }
-    writeFileSync(cachePath, cache, { encoding: 'utf8', flag: 'w' })
+function writeCache(cachePath: string, componentMeta: ComponentMeta, opts: ReturnType<typeof resolveOptions>) {
+  const cache = JSON.stringify({ cachedAt: Date.now(), ...componentMeta })
+  if (!existsSync(opts.cacheDir)) {
+    mkdirSync(opts.cacheDir, { recursive: true })
   }
+  writeFileSync(cachePath, cache, { encoding: 'utf8', flag: 'w' })
+}
 
-  return componentMeta
+function getComponentName(path: string) {
+  return pascalCase(basename(path).replace(/(\.d)?\.vue(\.d)?(\.ts)?$/, '').replace(/\.[jt]sx?$/, ''))
 }
 
 /**
@@ -90,7 +249,9 @@ function _getComponentMeta(resolvedPath: string, code: string, opts: Options) {
   // Ensure the checker parses the in-memory version.
   checker.updateFile(resolvedPath, code)
 
-  return refineMeta(
-    checker.getComponentMeta(resolvedPath)
+  return resolveDefaultValues(
+    refineMeta(checker.getComponentMeta(resolvedPath)),
+    code,
+    resolvedPath
   )
-}
\ No newline at end of file
+}
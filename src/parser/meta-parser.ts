@@ -2,14 +2,29 @@ import { performance } from 'perf_hooks'
 import fs, { existsSync } from 'fs'
 import { dirname, join, relative } from 'pathe'
 import { logger } from '@nuxt/kit'
-import type { createCheckerByJson } from 'vue-component-meta'
+import type { ComponentMeta, createCheckerByJson } from 'vue-component-meta'
 import { resolvePathSync } from 'mlly'
 import { hash } from 'ohash'
-import type { ComponentMetaParserOptions, NuxtComponentMeta } from '../types/parser'
+import { minimatch } from 'minimatch'
+import type { ComponentMetaDiagnostic, ComponentMetaParserOptions, NuxtComponentMeta } from '../types/parser'
 import { defu } from 'defu'
-import { refineMeta } from './utils'
-import { tryResolveTypesDeclaration, createMetaChecker  } from './checker'
+import { mergeOverrides, refineMeta } from './utils'
+import { tryResolveTypesDeclaration, createMetaChecker, getComponentDependencies, loadTsconfigPaths } from './checker'
+import type { TsconfigPaths } from './checker'
 import { optimiseJSON } from './optimiser'
+import { createParseCache } from './cache'
+import { extractExtendedComponentMeta } from './extend'
+import { resolveDefaultValues } from './defaults'
+import { parseInWorkers, resolveWorkerPath } from './worker-pool'
+import { propsToJsonSchema } from '../utils/schema'
+
+interface ComponentParseJob {
+  component: any
+  resolvedPath: string
+  code: string
+  codeHash: string
+  transformed: boolean
+}
 
 export function useComponentMetaParser (
   {
@@ -20,10 +35,14 @@ export function useComponentMetaParser (
     checkerOptions,
     exclude = [],
     overrides = {},
+    overrideRules = [],
     transformers = [],
     debug = false,
     metaFields,
     metaSources = {},
+    cache: cacheEnabled = false,
+    cacheDir = join(rootDir, 'node_modules/.cache/nuxt-component-meta'),
+    concurrency = 1,
     beforeWrite
   }: ComponentMetaParserOptions
 ) {
@@ -33,6 +52,36 @@ export function useComponentMetaParser (
   let components: NuxtComponentMeta = { ...metaSources }
   const outputPath = join(outputDir, 'component-meta')
 
+  const cache = cacheEnabled
+    ? createParseCache({
+      cacheDir,
+      rootDir,
+      key: {
+        transformers: transformers.map(transform => transform.toString()),
+        metaFields,
+        checkerOptions,
+        overrides,
+        overrideRules: overrideRules.map(rule => ({ ...rule, match: String(rule.match) }))
+      }
+    })
+    : undefined
+
+  /**
+   * List overrides of the rules matching a component, stripped from their `match`.
+   */
+  const getMatchingOverrideRules = (component: any) => overrideRules
+    .filter(({ match }) => {
+      switch (typeof match) {
+        case 'string':
+          return minimatch(component.filePath, match) || minimatch(component.filePath, `**/${match}`)
+        case 'function':
+          return match(component)
+        default:
+          return match instanceof RegExp && match.test(component.pascalName)
+      }
+    })
+    .map(({ match: _match, ...ruleOverrides }) => ruleOverrides)
+
   const isExcluded = (component: any) => {
     return exclude.find((excludeRule) => {
       switch (typeof excludeRule) {
@@ -48,30 +97,87 @@ export function useComponentMetaParser (
     })
   }
 
+  /**
+   * Component as shipped to the runtime, without build-only fields.
+   */
+  const getOutputComponent = (key: string) => {
+    const { dependencies: _dependencies, dependenciesHash: _dependenciesHash, ...meta } = components[key]?.meta || {}
+    return {
+      ...components[key],
+      fullPath: undefined,
+      shortPath: undefined,
+      export: undefined,
+      ...(components[key]?.meta ? { meta } : {})
+    }
+  }
+
   const getStringifiedComponents = () => {
-    const _components = Object.keys(components).map((key) => ([
-      key,
-      {
-        ...components[key],
-        fullPath: undefined,
-        shortPath: undefined,
-        export: undefined
-      }
-    ]))
+    const _components = Object.keys(components).map(key => [key, getOutputComponent(key)])
     return JSON.stringify(Object.fromEntries(_components), null, 2)
   }
 
   const getVirtualModuleContent = () => `export default ${getStringifiedComponents()}`
 
+  /**
+   * Props JSON Schemas of all components, keyed by component name.
+   */
+  const getSchemas = () => {
+    const schemas: Record<string, ReturnType<typeof propsToJsonSchema>> = {}
+    for (const [name, component] of Object.entries(components)) {
+      try {
+        schemas[name] = propsToJsonSchema(component.meta?.props || [])
+      } catch (error: any) {
+        logger.warn(`Could not generate the props JSON Schema of \`${name}\`: ${error?.message || error}`)
+      }
+    }
+    return schemas
+  }
+
+  const getSchemaModuleContent = () => `export default ${JSON.stringify(getSchemas(), null, 2)}`
+
+  const getCheckerInclude = () => componentDirs.map((dir) => typeof dir === 'string' ? dir : (dir?.path || ''))
+
+  // Aliases `extendComponentMeta()` values and default values are imported through
+  let tsconfigPaths: TsconfigPaths | undefined
+  const getTsconfigPaths = () => tsconfigPaths ||= loadTsconfigPaths(rootDir)
+
   let checker: ReturnType<typeof createCheckerByJson>
   const refreshChecker = () => {
+    tsconfigPaths = undefined
     checker = createMetaChecker({
       rootDir,
       checkerOptions,
-      include: componentDirs.map((dir) => typeof dir === 'string' ? dir : (dir?.path || '')),
+      include: getCheckerInclude(),
     })
   }
 
+  /**
+   * Hash the current content of the files a component depends on.
+   */
+  const hashDependencies = (dependencies: string[] = []) => hash(
+    dependencies.map((dependency) => {
+      const path = join(rootDir, dependency)
+      return existsSync(path) ? fs.readFileSync(path, 'utf-8') : ''
+    })
+  )
+
+  /**
+   * List components whose meta has been resolved from the given file.
+   */
+  const getDependentComponents = (file: string) => {
+    const dependency = relative(rootDir, file)
+    return Object.values(components).filter((component: any) => component.meta?.dependencies?.includes(dependency))
+  }
+
+  /**
+   * Sync the checker with the content of a changed file on disk.
+   */
+  const refreshFile = (file: string) => {
+    if (checker && existsSync(file)) {
+      checker.updateFile(file, fs.readFileSync(file, 'utf-8'))
+    }
+  }
+
   const init = async () => {
     const meta = await import(outputPath + '.mjs').then((m) => m.default || m).catch(() => null)
 
@@ -105,6 +211,45 @@ export function useComponentMetaParser (
         }
       })
     }
+
+    for (const componentName in overrides) {
+      if (!components[componentName]) {
+        logger.warn(`Overrides target unknown component \`${componentName}\`.`)
+      }
+    }
+  }
+
+  /**
+   * Write one deduplicated chunk per component, and the index lazily importing them.
+   *
+   * Chunks are only rewritten when their component changed.
+   */
+  const chunksDir = join(outputPath, 'chunks')
+  const chunksContent: Record<string, string> = {}
+  const updateChunks = (isStub: boolean) => {
+    if (!existsSync(chunksDir)) { fs.mkdirSync(chunksDir, { recursive: true }) }
+
+    const names = isStub ? [] : Object.keys(components)
+    for (const name of names) {
+      const content = JSON.stringify(getOutputComponent(name))
+      if (chunksContent[name] === content && existsSync(join(chunksDir, `${name}.mjs`))) { continue }
+      chunksContent[name] = content
+      fs.writeFileSync(join(chunksDir, `${name}.mjs`), optimiseJSON(`export default ${content}`), 'utf-8')
+    }
+
+    // Remove chunks of deleted components
+    for (const file of fs.readdirSync(chunksDir)) {
+      if (!names.includes(file.replace(/\.mjs$/, ''))) {
+        fs.unlinkSync(join(chunksDir, file))
+        Reflect.deleteProperty(chunksContent, file.replace(/\.mjs$/, ''))
+      }
+    }
+
+    fs.writeFileSync(
+      join(outputPath, 'index.mjs'),
+      `export default {\n${names.map(name => `  ${JSON.stringify(name)}: () => import('./chunks/${name}.mjs')`).join(',\n')}\n}`,
+      'utf-8'
+    )
   }
 
   /**
@@ -112,6 +257,7 @@ export function useComponentMetaParser (
    */
   const updateOutput = async (content?: string) => {
     const path = outputPath + '.mjs'
+    const isStub = Boolean(content)
 
     // Call beforeWrite hook if provided
     if (beforeWrite && !content) {
@@ -130,87 +276,189 @@ export function useComponentMetaParser (
       content,
       'utf-8'
     )
+
+    // Stubbed outputs have no components to describe yet
+    fs.writeFileSync(
+      outputPath + '.schema.mjs',
+      isStub ? 'export default {}' : getSchemaModuleContent(),
+      'utf-8'
+    )
+
+    updateChunks(isStub)
+  }
+
+  /**
+   * Write the metas as JSON files to be served statically: `index.json` for all components,
+   * `<Component>.json` and `<Component>.schema.json` for each of them.
+   */
+  const writeJsonOutput = (dir: string) => {
+    if (!existsSync(dir)) { fs.mkdirSync(dir, { recursive: true }) }
+
+    const schemas = getSchemas()
+    fs.writeFileSync(join(dir, 'index.json'), getStringifiedComponents(), 'utf-8')
+    for (const name of Object.keys(components)) {
+      fs.writeFileSync(join(dir, `${name}.json`), JSON.stringify(getOutputComponent(name)), 'utf-8')
+      if (schemas[name]) {
+        fs.writeFileSync(join(dir, `${name}.schema.json`), JSON.stringify(schemas[name]), 'utf-8')
+      }
+    }
   }
 
   /**
    * Stub output file
    */
   const stubOutput = () => {
-    if (existsSync(outputPath + '.mjs')) { return }
+    if ([outputPath + '.mjs', outputPath + '.schema.mjs', join(outputPath, 'index.mjs')].every(path => existsSync(path))) { return }
     updateOutput('export default {}')
   }
 
   /**
-   * Fetch a component metas by its file name.
+   * Resolve a component from its name or full path.
    */
-  const fetchComponent = (component: string | any) => {
+  const resolveComponent = (component: string | any) => {
+    if (typeof component !== 'string') {
+      return component
+    }
+    if (components[component]) {
+      return components[component]
+    }
+    return Object.values(components).find((comp: any) => comp.fullPath === component)
+  }
+
+  /**
+   * Run a parsing phase, recording a diagnostic on the component if it throws.
+   */
+  const runPhase = <T>(component: any, phase: ComponentMetaDiagnostic['phase'], fn: () => T): T => {
     const startTime = performance.now()
     try {
-      if (typeof component === 'string') {
-        if (components[component]) {
-          component = components[component]
-        } else {
-          component = Object.entries(components).find(([, comp]: any) => (comp.fullPath === component))
+      return fn()
+    } catch (error) {
+      addDiagnostic(component, phase, error, performance.now() - startTime)
+      throw error
+    }
+  }
 
-          // No component found via string
-          if (!component) { return }
+  const addDiagnostic = (component: any, phase: ComponentMetaDiagnostic['phase'], error: unknown, duration: number) => {
+    component.diagnostics = component.diagnostics || []
+    component.diagnostics.push({
+      message: error instanceof Error ? error.message : String(error),
+      phase,
+      file: component.filePath,
+      duration: Number(duration.toFixed(2))
+    })
+  }
 
-          component = component[1]
-        }
-      }
+  /**
+   * Read and transform a component source for parsing.
+   *
+   * Returns nothing when the component metas are up-to-date or restored from cache.
+   */
+  const prepareComponent = (component: any): ComponentParseJob | undefined => {
+    // Component is missing required values
+    if (!component?.fullPath || !component?.pascalName) { return }
 
-      // Component is missing required values
-      if (!component?.fullPath || !component?.pascalName) { return }
+    if (component.meta.hash && component.fullPath.includes('/node_modules/')) {
+      // We assume that components from node_modules don't change
+      return
+    }
+    // Diagnostics only describe the latest parse
+    delete component.diagnostics
 
-      if (component.meta.hash && component.fullPath.includes('/node_modules/')) {
-        // We assume that components from node_modules don't change
-        return
-      }
-      const resolvedPath = tryResolveTypesDeclaration(component.fullPath)
+    const resolvedPath = tryResolveTypesDeclaration(component.fullPath)
 
-      // Read component code
-      let code = fs.readFileSync(resolvedPath, 'utf-8')
-      const codeHash = hash(code)
-      if (codeHash === component.meta.hash) {
-        return
-      }
+    // Read component code
+    let code = runPhase(component, 'read', () => fs.readFileSync(resolvedPath, 'utf-8'))
+    const codeHash = hash(code)
+    if (codeHash === component.meta.hash && hashDependencies(component.meta.dependencies) === component.meta.dependenciesHash) {
+      return
+    }
 
-      // Create the checker at the very last moment and silently fail if unavailable.
-      if (!checker) {
-        try {
-          refreshChecker()
-        } catch {
-          return
-        }
+    // Reuse metas parsed by a previous process if neither the source nor its dependencies changed
+    const cachedMeta = cache?.get(component.filePath, codeHash)
+    if (cachedMeta && hashDependencies(cachedMeta.dependencies) === cachedMeta.dependenciesHash) {
+      component.meta = cachedMeta
+      components[component.pascalName] = component
+      return
+    }
+
+    // Support transformers
+    runPhase(component, 'transform', () => {
+      for (const transform of transformers) {
+        const transformResult = transform(component, code)
+        component = transformResult?.component || component
+        code = transformResult?.code || code
       }
+    })
 
-      // Support transformers
-      if (transformers && transformers.length > 0) {
-        for (const transform of transformers) {
-          const transformResult = transform(component, code)
-          component = transformResult?.component || component
-          code = transformResult?.code || code
-        }
+    return { component, resolvedPath, code, codeHash, transformed: transformers.length > 0 }
+  }
 
-        // Ensure file is updated
-        checker.updateFile(resolvedPath, code)
+  /**
+   * Refine and store parsed metas on the component.
+   */
+  const applyComponentMeta = ({ component, code, codeHash }: ComponentParseJob, meta: ComponentMeta, dependencyPaths: string[]) => {
+    const dependencies = dependencyPaths.map(dependency => relative(rootDir, dependency))
+
+    let extension: Record<string, any> | null = null
+    try {
+      extension = runPhase(component, 'extend', () => extractExtendedComponentMeta(code, component.fullPath, { tsconfigPaths: getTsconfigPaths() }))
+    } catch {
+      // Recorded as an `extend` diagnostic, the parsed metas are kept without the extension
+    }
+    const { props, slots, events, exposed, ...extendedComponentMeta } = extension || {}
+    // Overrides from matching rules, then from the component itself, then by component name
+    const ruleOverrides = mergeOverrides(...getMatchingOverrideRules(component))
+    const componentOverrides = mergeOverrides(
+      { props, slots, events, exposed },
+      overrides[component.pascalName] || {}
+    )
+    const refinedMeta = runPhase(component, 'refine', () => refineMeta(meta, metaFields, componentOverrides, component.pascalName, ruleOverrides))
+    const metaWithDefaults = runPhase(component, 'defaults', () => resolveDefaultValues(refinedMeta, code, component.fullPath, { tsconfigPaths: getTsconfigPaths() }))
+
+    Object.assign(
+      component.meta,
+      metaWithDefaults,
+      {
+        hash: codeHash,
+        dependencies,
+        dependenciesHash: hashDependencies(dependencies)
       }
+    )
+    component.meta = defu(component.meta, extendedComponentMeta)
+    cache?.set(component.filePath, codeHash, component.meta)
+
+    components[component.pascalName] = component
+  }
+
+  /**
+   * Fetch a component metas by its file name.
+   */
+  const fetchComponent = (component: string | any) => {
+    const startTime = performance.now()
+    try {
+      component = resolveComponent(component)
 
-      const meta = checker.getComponentMeta(resolvedPath)
+      const job = prepareComponent(component)
+      if (!job) { return }
+      component = job.component
 
-      Object.assign(
-        component.meta,
-        refineMeta(meta, metaFields, overrides[component.pascalName] || {}),
-        {
-          hash: codeHash
+      const { meta, dependencies } = runPhase(component, 'checker', () => {
+        // Create the checker at the very last moment
+        if (!checker) {
+          refreshChecker()
         }
-      )
 
-      const extendComponentMetaMatch = code.match(/extendComponentMeta\((\{[\s\S]*?\})\)/);
-      const extendedComponentMeta =  extendComponentMetaMatch?.length ? eval(`(${extendComponentMetaMatch[1]})`) : null
-      component.meta = defu(component.meta, extendedComponentMeta)
+        // Ensure file is updated
+        if (job.transformed) {
+          checker.updateFile(job.resolvedPath, job.code)
+        }
 
-      components[component.pascalName] = component
+        return {
+          meta: checker.getComponentMeta(job.resolvedPath),
+          dependencies: getComponentDependencies(checker, job.resolvedPath)
+        }
+      })
+      applyComponentMeta(job, meta, dependencies)
     } catch {
       if (debug) {
         logger.info(`Could not parse ${component?.pascalName || component?.filePath || 'a component'}!`)
@@ -222,18 +470,88 @@ export function useComponentMetaParser (
     return components[component.pascalName]
   }
 
+  /**
+   * Fetch components metas by sharding them across worker threads.
+   */
+  const fetchComponentsInWorkers = async (workerPath: string) => {
+    const jobs: ComponentParseJob[] = []
+    for (const component of Object.values(components)) {
+      try {
+        const job = prepareComponent(component)
+        if (job) { jobs.push(job) }
+      } catch {
+        if (debug) {
+          logger.info(`Could not parse ${component?.pascalName || component?.filePath || 'a component'}!`)
+        }
+      }
+    }
+    if (!jobs.length) { return }
+
+    const results = await parseInWorkers(
+      workerPath,
+      jobs.map(job => ({ resolvedPath: job.resolvedPath, code: job.transformed ? job.code : undefined })),
+      { rootDir, checkerOptions, include: getCheckerInclude() },
+      concurrency
+    )
+
+    results.forEach((result, index) => {
+      const { component } = jobs[index]!
+      try {
+        if (result.error || !result.meta) {
+          const error = result.error || 'Worker failed to parse component'
+          addDiagnostic(component, 'checker', error, result.duration)
+          throw new Error(error)
+        }
+        applyComponentMeta(jobs[index]!, result.meta, result.dependencies || [])
+      } catch {
+        if (debug) {
+          logger.info(`Could not parse ${component?.pascalName || component?.filePath || 'a component'}!`)
+        }
+      }
+    })
+  }
+
   /**
    * Fetch all components metas
    */
-  const fetchComponents = () => {
+  const fetchComponents = async () => {
     const startTime = performance.now()
-    for (const component of Object.values(components)) {
-      fetchComponent(component)
+    const workerPath = concurrency > 1 ? resolveWorkerPath() : undefined
+    if (concurrency > 1 && !workerPath) {
+      logger.warn('Parallel components parsing is only available from the built module, parsing components serially.')
+    }
+
+    let parsed = false
+    if (workerPath) {
+      try {
+        await fetchComponentsInWorkers(workerPath)
+        parsed = true
+      } catch (error) {
+        logger.warn('Parallel components parsing failed, parsing components serially.', error)
+      }
+    }
+    if (!parsed) {
+      for (const component of Object.values(components)) {
+        fetchComponent(component)
+      }
     }
     const endTime = performance.now()
     if (!debug || debug === 2) { logger.success(`Components metas parsed in ${(endTime - startTime).toFixed(2)}ms`) }
+
+    const failedComponents = getFailedComponents()
+    if (failedComponents.length) {
+      logger.warn([
+        `${failedComponents.length} component(s) could not be parsed:`,
+        ...failedComponents.flatMap(component => component.diagnostics!.map(diagnostic => `  - ${component.pascalName} (${diagnostic.phase}): ${diagnostic.message}`))
+      ].join('\n'))
+    }
   }
 
+  /**
+   * List components which metas could not be parsed.
+   */
+  const getFailedComponents = () => Object.values(components).filter(component => component.diagnostics?.length)
+
   return {
     get checker () { return checker },
     get components () { return components },
@@ -248,13 +566,18 @@ export function useComponentMetaParser (
     },
     init,
     refreshChecker,
+    refreshFile,
+    getDependentComponents,
     stubOutput,
     outputPath,
     updateOutput,
+    writeJsonOutput,
     fetchComponent,
     fetchComponents,
+    getFailedComponents,
     getStringifiedComponents,
-    getVirtualModuleContent
+    getVirtualModuleContent,
+    getSchemaModuleContent
   }
 }
 
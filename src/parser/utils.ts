@@ -1,8 +1,15 @@
 import { camelCase } from "scule"
+import { logger } from '@nuxt/kit'
 import type { ComponentMeta } from 'vue-component-meta'
 import type { ModuleOptions } from '../types/module'
 
-export function refineMeta(meta: ComponentMeta, fields: ModuleOptions['metaFields'] = { type: true, props: true, slots: true, events: true, exposed: true }, overrides: ModuleOptions['overrides'][string] = {}): ComponentMeta {
+/**
+ * Filter and sort parsed metas, then apply overrides.
+ *
+ * `ruleOverrides`, merged from override rules matching many components, are applied before `overrides`
+ * and silently skip entries the component does not have.
+ */
+export function refineMeta(meta: ComponentMeta, fields: ModuleOptions['metaFields'] = { type: true, props: true, slots: true, events: true, exposed: true }, overrides: ModuleOptions['overrides'][string] = {}, componentName = 'component', ruleOverrides: ModuleOptions['overrides'][string] = {}): ComponentMeta {
   const eventProps = new Set<string>(meta.events.map((event :any) => camelCase(`on_${event.name}`)))
   const props = (fields.props ? meta.props : [])
     .filter((prop: any) => !prop.global && !eventProps.has(prop.name as string))
@@ -49,20 +56,70 @@ export function refineMeta(meta: ComponentMeta, fields: ModuleOptions['metaField
     removeFields(refinedMeta.props, ['schema'])
   }
 
-  for (const meta in overrides) {
-    const metaOverrides = overrides[meta as keyof typeof overrides]
-    const metaFields = refinedMeta[meta as keyof typeof refinedMeta]
-    if (Array.isArray(metaFields)) {
-      for (const fieldName in metaOverrides) {
-        const override = metaOverrides[fieldName]
-        const index = metaFields.findIndex((field: any) => field.name === fieldName)
-        if (index !== -1) {
-          metaFields[index] = override
+  applyOverrides(refinedMeta, fields, overrides, componentName, ruleOverrides)
+
+  return refinedMeta
+}
+
+/**
+ * Deep-merge overrides into refined metas, `false` removing an entry.
+ */
+function applyOverrides(refinedMeta: Record<string, any>, fields: ModuleOptions['metaFields'], overrides: ModuleOptions['overrides'][string], componentName: string, ruleOverrides: ModuleOptions['overrides'][string]) {
+  const mergedOverrides = mergeOverrides(ruleOverrides, overrides)
+  for (const meta in mergedOverrides) {
+    const metaOverrides = mergedOverrides[meta as keyof typeof mergedOverrides] as Record<string, any>
+    const metaFields = refinedMeta[meta]
+    if (!Array.isArray(metaFields)) {
+      logger.warn(`Unknown \`${meta}\` overrides for ${componentName}, expected one of props, slots, events or exposed.`)
+      continue
+    }
+    // Field is disabled through `metaFields`
+    if (!fields[meta as keyof typeof fields]) {
+      continue
+    }
+    for (const fieldName in metaOverrides) {
+      const override = metaOverrides[fieldName]
+      const index = metaFields.findIndex((field: any) => field.name === fieldName)
+      if (index === -1) {
+        // Removing a missing entry is a no-op, e.g. for override rules matching many components
+        if (override === false) {
+          continue
         }
+        if (override && override.type) {
+          metaFields.push({ ...override, name: fieldName })
+        } else if ((overrides as Record<string, any>)[meta]?.[fieldName] !== undefined) {
+          // Only overrides targeting this component by name are expected to match an entry
+          logger.warn(`Override of unknown ${meta} \`${fieldName}\` for ${componentName} ignored, declare its \`type\` to add it.`)
+        }
+      } else if (override === false) {
+        metaFields.splice(index, 1)
+      } else {
+        metaFields[index] = mergeOverride(metaFields[index], override)
       }
     }
   }
-  return refinedMeta
+}
+
+/**
+ * Merge successive overrides, later ones taking precedence.
+ */
+export function mergeOverrides(...overrides: ModuleOptions['overrides'][string][]): ModuleOptions['overrides'][string] {
+  return overrides.reduce((merged, override) => mergeOverride(merged, override || {}), {})
+}
+
+function mergeOverride(target: any, override: any): any {
+  if (!isPlainObject(target) || !isPlainObject(override)) {
+    return override === undefined ? target : override
+  }
+  const merged = { ...target }
+  for (const key in override) {
+    merged[key] = mergeOverride(target[key], override[key])
+  }
+  return merged
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
 }
 
 function stripeTypeScriptInternalTypesSchema (type: any, _topLevel: boolean = true): any {
@@ -0,0 +1,76 @@
+import { existsSync } from 'fs'
+import { Worker } from 'worker_threads'
+import { fileURLToPath } from 'url'
+import type { ComponentMeta } from 'vue-component-meta'
+import type { Options as CheckerOptions } from './checker'
+
+export interface WorkerJob {
+  resolvedPath: string
+  /**
+   * Transformed code to parse instead of the file content.
+   */
+  code?: string
+}
+
+export interface WorkerResult {
+  meta?: ComponentMeta
+  dependencies?: string[]
+  error?: string
+  /**
+   * Parsing duration in milliseconds.
+   */
+  duration: number
+}
+
+/**
+ * Resolve the built worker entry, only available once the module has been bundled.
+ */
+export function resolveWorkerPath (): string | undefined {
+  for (const path of ['./worker.mjs', '../worker.mjs']) {
+    const workerPath = fileURLToPath(new URL(path, import.meta.url))
+    if (existsSync(workerPath)) {
+      return workerPath
+    }
+  }
+}
+
+/**
+ * Shard jobs across `concurrency` worker threads, each one running its own checker.
+ *
+ * Results are returned in the same order as jobs.
+ */
+export async function parseInWorkers (workerPath: string, jobs: WorkerJob[], checkerOptions: CheckerOptions, concurrency: number): Promise<WorkerResult[]> {
+  const results: WorkerResult[] = new Array(jobs.length)
+  const shards = Array.from({ length: Math.min(concurrency, jobs.length) }, (_, shard) =>
+    jobs.map((_job, index) => index).filter(index => index % concurrency === shard)
+  )
+
+  const workers = shards.map(() => new Worker(workerPath, { workerData: checkerOptions }))
+  // Stop the whole pool on the first failure, so no shard keeps parsing while components are parsed serially
+  const terminateAll = () => Promise.all(workers.map(worker => worker.terminate()))
+
+  try {
+    await Promise.all(shards.map((indexes, shard) => new Promise<void>((resolve, reject) => {
+      const worker = workers[shard]!
+      // Terminating the worker once its results arrived also emits `exit`
+      let done = false
+      worker.once('message', (shardResults: WorkerResult[]) => {
+        done = true
+        shardResults.forEach((result, i) => { results[indexes[i]!] = result })
+        worker.terminate().then(() => resolve(), reject)
+      })
+      worker.once('error', reject)
+      worker.once('exit', (code: number) => {
+        if (!done) {
+          reject(new Error(`Worker stopped with exit code ${code}`))
+        }
+      })
+      worker.postMessage(indexes.map(index => jobs[index]))
+    })))
+  } catch (error) {
+    await terminateAll()
+    throw error
+  }
+
+  return results
+}
@@ -0,0 +1,29 @@
+import { parentPort, workerData } from 'worker_threads'
+import { createMetaChecker, getComponentDependencies } from './checker'
+import type { WorkerJob, WorkerResult } from './worker-pool'
+
+/**
+ * Worker thread entry: parse a shard of components with a dedicated checker.
+ */
+const checker = createMetaChecker(workerData)
+
+parentPort?.once('message', (jobs: WorkerJob[]) => {
+  const results = jobs.map((job): WorkerResult => {
+    const startTime = performance.now()
+    try {
+      if (job.code !== undefined) {
+        checker.updateFile(job.resolvedPath, job.code)
+      }
+      const meta = checker.getComponentMeta(job.resolvedPath)
+      return {
+        // Drop functions (e.g. `getDeclarations`) that cannot be cloned to the main thread
+        meta: JSON.parse(JSON.stringify(meta)),
+        dependencies: getComponentDependencies(checker, job.resolvedPath),
+        duration: performance.now() - startTime
+      }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error), duration: performance.now() - startTime }
+    }
+  })
+  parentPort?.postMessage(results)
+})
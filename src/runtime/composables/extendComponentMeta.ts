@@ -1 +1,6 @@
-export function extendComponentMeta(_meta: Record<string, any>) { /* Placeholder for extending component meta */ }
+import type { ComponentMetaExtension } from '#nuxt-component-meta/types'
+
+/**
+ * Compiler macro extending the component metas, statically extracted at build time and stripped from the bundle.
+ */
+export function extendComponentMeta(_meta: ComponentMetaExtension) { /* Placeholder for extending component meta */ }
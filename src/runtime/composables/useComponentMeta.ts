@@ -1,8 +1,9 @@
-import { reactive, computed, unref } from 'vue'
-import type { ComputedRef, Ref } from 'vue'
+import { reactive, computed, toValue, watch } from 'vue'
+import type { ComputedRef, MaybeRefOrGetter } from 'vue'
 // @ts-ignore
 import type { ComponentData, NuxtComponentMeta } from '../../types'
-import { useNuxtApp, useAsyncData } from '#imports'
+import { joinURL } from 'ufo'
+import { useNuxtApp, useAsyncData, useRuntimeConfig } from '#imports'
 import type { NuxtComponentMetaNames } from '#nuxt-component-meta/types'
 
 // @ts-ignore
@@ -11,30 +12,60 @@ export const __getComponentMeta = async (): Promise<NuxtComponentMeta> => {
   return (__metas as unknown as { default?: NuxtComponentMeta })?.default || __metas
 }
 
-export async function useComponentMeta <T> (componentName?: NuxtComponentMetaNames | Ref<NuxtComponentMetaNames>): Promise<ComputedRef<T extends string ? ComponentData : NuxtComponentMeta>> {
+// Only import the chunk of the requested component
+export const __getComponentMetaChunk = async (componentName: string): Promise<ComponentData | undefined> => {
+  const __chunks = await import('#nuxt-component-meta/chunks')
+  const chunks: Record<string, () => Promise<{ default: ComponentData }>> = __chunks.default || __chunks
+  return chunks[componentName]?.().then(m => m.default || m)
+}
+
+export async function useComponentMeta <T> (componentName?: MaybeRefOrGetter<NuxtComponentMetaNames>): Promise<ComputedRef<T extends string ? ComponentData : NuxtComponentMeta>> {
   const nuxtApp = useNuxtApp()
 
-  const _componentName = unref(componentName)
+  const getComponentName = () => toValue(componentName)
+  const runtimeConfig = useRuntimeConfig()
+  const runtimeSource = (runtimeConfig.public.componentMeta as { runtimeSource?: string } | undefined)?.runtimeSource
 
   // @ts-ignore
-  if (import.meta.dev) {
-    // Development ; use #nuxt-component-meta virtual module
-    const __componentMeta = await __getComponentMeta()
-
+  if (import.meta.dev || runtimeSource === 'bundle') {
+    // Development or bundled metas ; use #nuxt-component-meta virtual modules
     if (!nuxtApp._componentMeta) {
-      nuxtApp._componentMeta = reactive(__componentMeta) as NuxtComponentMeta
+      nuxtApp._componentMeta = reactive({}) as NuxtComponentMeta
     }
+    const componentMeta = nuxtApp._componentMeta as NuxtComponentMeta
+
+    if (componentName !== undefined) {
+      const loadComponentMeta = async (name?: string) => {
+        if (!name || name in componentMeta) {
+          return
+        }
+        const meta = await __getComponentMetaChunk(name)
+        if (meta) {
+          componentMeta[name] = meta
+        }
+      }
+
+      // The watcher is registered before awaiting, while the component scope is still active, to be stopped on unmount
+      let loading: Promise<void> | undefined
+      watch(getComponentName, (name) => { loading = loadComponentMeta(name) }, { immediate: true })
+      await loading
 
-    if (_componentName) {
-      return computed(() => nuxtApp._componentMeta[_componentName])
+      return computed(() => componentMeta[getComponentName()!]) as any
     }
 
-    return computed(() => nuxtApp._componentMeta)
+    Object.assign(componentMeta, await __getComponentMeta())
+    nuxtApp._componentMetaFullyLoaded = true
+
+    return computed(() => componentMeta) as any
   } else {
-    // Production ; use API to fetch metas
+    // Production ; use API or prerendered files to fetch metas, refetched when the component name changes
     const { data } = await useAsyncData(
-      `nuxt-component-meta${_componentName ? `-${_componentName}` : ''}`,
+      () => `nuxt-component-meta${getComponentName() ? `-${getComponentName()}` : ''}`,
       () => {
+        const _componentName = getComponentName()
+        if (runtimeSource === 'prerendered-json') {
+          return $fetch(joinURL(runtimeConfig.app.baseURL, `/component-meta/${_componentName || 'index'}.json`))
+        }
         return $fetch(`/api/component-meta${_componentName ? `/${_componentName}` : ''}`)
       }
     )
@@ -45,27 +76,39 @@ export async function useComponentMeta <T> (componentName?: NuxtComponentMetaNam
 
 // HMR Support
 if (import.meta.dev) {
-  async function applyHMR (newConfig: NuxtComponentMeta) {
-    const componentMetas = await useComponentMeta()
-    if (newConfig && componentMetas.value) {
-      for (const key in newConfig) {
-        (componentMetas.value as any)[key] = (newConfig as any)[key]
-      }
-      for (const key in componentMetas.value) {
-        if (!(key in newConfig)) {
-          // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
-          delete (componentMetas.value as any)[key]
+  // Refresh every component once all of them have been loaded, only the loaded chunks otherwise
+  async function applyHMR (newModule: { __getComponentMeta: typeof __getComponentMeta, __getComponentMetaChunk: typeof __getComponentMetaChunk }) {
+    const nuxtApp = useNuxtApp()
+    const componentMetas = nuxtApp._componentMeta as NuxtComponentMeta | undefined
+    if (!componentMetas) {
+      return
+    }
+
+    if (nuxtApp._componentMetaFullyLoaded) {
+      const newMetas = await newModule.__getComponentMeta()
+      Object.assign(componentMetas, newMetas)
+      for (const key in componentMetas) {
+        if (!(key in newMetas)) {
+          Reflect.deleteProperty(componentMetas, key)
         }
       }
+      return
+    }
+
+    for (const key in componentMetas) {
+      const meta = await newModule.__getComponentMetaChunk(key)
+      if (meta) {
+        componentMetas[key] = meta
+      } else {
+        Reflect.deleteProperty(componentMetas, key)
+      }
     }
   }
 
   // Vite
   if (import.meta.hot) {
     import.meta.hot.accept(async (newModule) => {
-      const newMetas = await newModule.__getComponentMeta()
-
-      applyHMR(newMetas)
+      await applyHMR(newModule as any)
     })
   }
 }
@@ -0,0 +1,41 @@
+import { computed, toValue } from 'vue'
+import type { ComputedRef, MaybeRefOrGetter } from 'vue'
+// @ts-ignore
+import type { NuxtComponentMeta } from '../../types'
+import { useAsyncData, useRuntimeConfig } from '#imports'
+import { queryComponentMeta, stringifyComponentMetaQuery } from '../utils/query'
+import type { ComponentMetaQuery } from '../utils/query'
+import { projectComponentsMeta, stringifyComponentMetaProjection } from '../utils/projection'
+import type { ComponentMetaProjection } from '../utils/projection'
+import { useComponentMeta } from './useComponentMeta'
+
+/**
+ * Components metas matching a query, optionally trimmed by a projection, updated when either changes.
+ *
+ * With the `api` runtime source, components are filtered by the `/api/component-meta` route, and in the browser otherwise.
+ *
+ * @example
+ * const components = await useComponentMetaQuery({ prop: 'color', dir: 'components/content' }, { fields: ['props.name'] })
+ */
+export async function useComponentMetaQuery (query: MaybeRefOrGetter<ComponentMetaQuery>, projection?: MaybeRefOrGetter<ComponentMetaProjection | undefined>): Promise<ComputedRef<NuxtComponentMeta>> {
+  const runtimeSource = (useRuntimeConfig().public.componentMeta as { runtimeSource?: string } | undefined)?.runtimeSource
+
+  // @ts-ignore
+  if (!import.meta.dev && (runtimeSource || 'api') === 'api') {
+    // Only fetch the matching components, refetched when the query or projection changes
+    const getParams = () => ({
+      ...stringifyComponentMetaQuery(toValue(query)),
+      ...stringifyComponentMetaProjection(toValue(projection))
+    })
+    const { data } = await useAsyncData(
+      () => `nuxt-component-meta-query-${new URLSearchParams(getParams())}`,
+      () => $fetch<NuxtComponentMeta>('/api/component-meta', { query: getParams() })
+    )
+
+    return computed(() => data.value || {})
+  }
+
+  const components = await useComponentMeta<undefined>()
+
+  return computed(() => projectComponentsMeta(queryComponentMeta(components.value || {}, toValue(query)), toValue(projection)))
+}
@@ -0,0 +1,63 @@
+import { computed, toValue } from 'vue'
+import type { ComputedRef, MaybeRefOrGetter } from 'vue'
+import { joinURL } from 'ufo'
+import { useNuxtApp, useAsyncData, useRuntimeConfig } from '#imports'
+import type { NuxtComponentMetaNames } from '#nuxt-component-meta/types'
+import { validateProps } from '../utils/validate-props'
+import type { ComponentPropsValidationResult } from '../utils/validate-props'
+
+export interface ComponentPropsValidator {
+  /**
+   * Props JSON Schema of the component, generated at build time.
+   */
+  schema: ComputedRef<Record<string, any> | undefined>
+  validate: (props: Record<string, unknown>) => ComponentPropsValidationResult
+}
+
+type ComponentPropsSchemas = Record<string, Record<string, any>>
+
+const __getComponentPropsSchemas = async (): Promise<ComponentPropsSchemas> => {
+  const __schemas = await import('#nuxt-component-meta/schema')
+  return (__schemas as unknown as { default?: ComponentPropsSchemas })?.default || __schemas
+}
+
+export async function useComponentPropsValidator (componentName: MaybeRefOrGetter<NuxtComponentMetaNames>): Promise<ComponentPropsValidator> {
+  const nuxtApp = useNuxtApp()
+
+  const getComponentName = () => toValue(componentName)
+
+  let schema: ComputedRef<Record<string, any> | undefined>
+
+  const runtimeConfig = useRuntimeConfig()
+  const runtimeSource = (runtimeConfig.public.componentMeta as { runtimeSource?: string } | undefined)?.runtimeSource
+
+  // @ts-ignore
+  if (import.meta.dev || runtimeSource === 'bundle') {
+    // Development or bundled metas ; use #nuxt-component-meta/schema virtual module
+    if (!nuxtApp._componentPropsSchemas) {
+      nuxtApp._componentPropsSchemas = await __getComponentPropsSchemas()
+    }
+
+    schema = computed(() => (nuxtApp._componentPropsSchemas as ComponentPropsSchemas)[getComponentName()])
+  } else {
+    // Production ; use API or prerendered files to fetch the schema, refetched when the component name changes
+    const { data } = await useAsyncData(
+      () => `nuxt-component-meta-schema-${getComponentName()}`,
+      () => $fetch(runtimeSource === 'prerendered-json'
+        ? joinURL(runtimeConfig.app.baseURL, `/component-meta/${getComponentName()}.schema.json`)
+        : `/api/component-meta/${getComponentName()}/schema.json`).catch(() => undefined)
+    )
+
+    schema = computed<any>(() => data.value)
+  }
+
+  return {
+    schema,
+    validate: (props) => {
+      if (!schema.value) {
+        return { valid: false, errors: [{ path: '', message: `Unknown component \`${getComponentName()}\`` }] }
+      }
+      return validateProps(schema.value, props)
+    }
+  }
+}
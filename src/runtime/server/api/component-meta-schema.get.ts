@@ -0,0 +1,28 @@
+import { defineEventHandler, createError, appendHeader } from 'h3'
+import { pascalCase } from 'scule'
+// @ts-expect-error - Not resolve from tsconfig
+import schemas from '#nuxt-component-meta/nitro/schema'
+
+export default defineEventHandler((event) => {
+  // TODO: Replace via downstream config
+  appendHeader(event, 'Access-Control-Allow-Origin', '*')
+
+  const componentName = event.context.params?.component || ''
+
+  if (componentName) {
+    const schema = schemas[pascalCase(componentName)]
+    if (!schema) {
+      throw createError({
+        statusMessage: 'Components not found!',
+        statusCode: 404,
+        data: {
+          description: 'Please make sure you are looking for correct component'
+        }
+      })
+    }
+
+    return schema
+  }
+
+  return schemas
+})
@@ -1,12 +1,16 @@
-import { defineEventHandler, createError, appendHeader } from 'h3'
+import { defineEventHandler, createError, appendHeader, getQuery } from 'h3'
 import { pascalCase } from 'scule'
 // @ts-expect-error - Not resolve from tsconfig
 import components from '#nuxt-component-meta/nitro'
+import { parseComponentMetaQuery, queryComponentMeta } from '../../utils/query'
+import { parseComponentMetaProjection, projectComponentMeta, projectComponentsMeta } from '../../utils/projection'
 
 export default defineEventHandler((event) => {
   // TODO: Replace via downstream config
   appendHeader(event, 'Access-Control-Allow-Origin', '*')
 
+  const params = getQuery(event)
+  const projection = parseComponentMetaProjection(params)
   const componentName = (event.context.params?.['component?'] || '').replace(/\.json$/, '')
 
   if (componentName) {
@@ -21,8 +25,9 @@ export default defineEventHandler((event) => {
       })
     }
 
-    return meta
+    return projectComponentMeta(meta, projection)
   }
 
-  return components
+  const query = parseComponentMetaQuery(params)
+  return projectComponentsMeta(Object.keys(query).length ? queryComponentMeta(components, query) : components, projection)
 })
@@ -0,0 +1,22 @@
+import { pascalCase } from 'scule'
+// @ts-expect-error - Not resolve from tsconfig
+import schemas from '#nuxt-component-meta/nitro/schema'
+import { validateProps } from '../../utils/validate-props'
+import type { ComponentPropsValidationResult } from '../../utils/validate-props'
+
+/**
+ * Validate props objects against the build-time props JSON Schema of a component in Nitro handlers.
+ */
+export function useComponentPropsValidator (componentName: string) {
+  const schema: Record<string, any> | undefined = schemas[pascalCase(componentName)]
+
+  return {
+    schema,
+    validate: (props: Record<string, unknown>): ComponentPropsValidationResult => {
+      if (!schema) {
+        return { valid: false, errors: [{ path: '', message: `Unknown component \`${componentName}\`` }] }
+      }
+      return validateProps(schema, props)
+    }
+  }
+}
@@ -0,0 +1,105 @@
+export interface ComponentMetaProjection {
+  /**
+   * Meta fields to keep, e.g. `props` or `slots`, or members fields to keep, e.g. `props.name`.
+   *
+   * All fields are kept when empty.
+   */
+  fields?: string[]
+  /**
+   * Set to `false` to drop the `schema` trees of props, slots, events and exposed members.
+   */
+  schema?: boolean
+}
+
+const membersFields = ['props', 'slots', 'events', 'exposed']
+
+/**
+ * Trim a component meta down to the projected fields. Component fields outside of `meta`, like `pascalName`, are always kept.
+ */
+export function projectComponentMeta<T extends Record<string, any>>(component: T, projection: ComponentMetaProjection = {}): T {
+  if (!component?.meta || (!projection.fields?.length && projection.schema !== false)) {
+    return component
+  }
+
+  // `props` keeps whole members, `props.name` only the name of each member
+  const fields: Record<string, string[] | true> = {}
+  for (const field of projection.fields || []) {
+    const [key = '', member] = field.split('.', 2)
+    if (!member) {
+      fields[key] = true
+    } else if (fields[key] !== true) {
+      fields[key] = [...(fields[key] || []) as string[], member]
+    }
+  }
+
+  const meta: Record<string, any> = {}
+  for (const [key, value] of Object.entries(component.meta)) {
+    const keep = projection.fields?.length ? fields[key] : true
+    if (!keep) {
+      continue
+    }
+    if (!membersFields.includes(key) || !Array.isArray(value)) {
+      meta[key] = value
+      continue
+    }
+    meta[key] = value.map((member: Record<string, any>) => projectMember(member, keep, projection.schema !== false))
+  }
+
+  return { ...component, meta }
+}
+
+/**
+ * Project every component of a components metas record.
+ */
+export function projectComponentsMeta<T extends Record<string, any>>(components: T, projection: ComponentMetaProjection = {}): T {
+  if (!projection.fields?.length && projection.schema !== false) {
+    return components
+  }
+  return Object.fromEntries(
+    Object.entries(components || {}).map(([name, component]) => [name, projectComponentMeta(component, projection)])
+  ) as T
+}
+
+/**
+ * Read a projection from URL query params, where fields are either repeated or comma-separated.
+ */
+export function parseComponentMetaProjection(params: Record<string, any>): ComponentMetaProjection {
+  const projection: ComponentMetaProjection = {}
+  const fields = [params.fields].flat().filter(value => value !== undefined && value !== null)
+    .flatMap(value => String(value).split(',')).map(value => value.trim()).filter(Boolean)
+  if (fields.length) {
+    projection.fields = fields
+  }
+  if (params.schema !== undefined) {
+    projection.schema = !(params.schema === false || params.schema === 'false' || params.schema === '0')
+  }
+  return projection
+}
+
+/**
+ * Write a projection as URL query params, the reverse of `parseComponentMetaProjection`.
+ */
+export function stringifyComponentMetaProjection(projection: ComponentMetaProjection = {}): Record<string, string> {
+  const params: Record<string, string> = {}
+  if (projection.fields?.length) {
+    params.fields = projection.fields.join(',')
+  }
+  if (projection.schema !== undefined) {
+    params.schema = String(projection.schema)
+  }
+  return params
+}
+
+function projectMember(member: Record<string, any>, keep: string[] | true, schema: boolean): Record<string, any> {
+  if (keep === true) {
+    if (schema || !member || !('schema' in member)) {
+      return member
+    }
+    const trimmed = { ...member }
+    Reflect.deleteProperty(trimmed, 'schema')
+    return trimmed
+  }
+  return Object.fromEntries(
+    keep.filter(key => key in (member || {}) && (schema || key !== 'schema')).map(key => [key, member[key]])
+  )
+}
@@ -0,0 +1,146 @@
+export interface ComponentMetaQuery {
+  /**
+   * Names of props the components must declare.
+   */
+  prop?: string | string[]
+  /**
+   * Names of slots the components must declare.
+   */
+  slot?: string | string[]
+  /**
+   * Names of events the components must emit.
+   */
+  event?: string | string[]
+  /**
+   * Names of members the components must expose.
+   */
+  exposed?: string | string[]
+  /**
+   * Part of a prop type, e.g. `boolean`. Matched against the props named by `prop` when set, or any prop.
+   */
+  type?: string
+  /**
+   * Directory containing the components, relative to the project root, e.g. `components/content`.
+   */
+  dir?: string
+  /**
+   * Prefix of the components names, e.g. `U` or `prose`.
+   */
+  prefix?: string
+  global?: boolean
+  /**
+   * Free text, matched case-insensitively against components names, and members names and descriptions.
+   */
+  search?: string
+}
+
+/**
+ * Filter components metas, keeping the ones matching every criterion of the query.
+ */
+export function queryComponentMeta<T extends Record<string, any>>(components: T, query: ComponentMetaQuery = {}): T {
+  return Object.fromEntries(
+    Object.entries(components || {}).filter(([, component]) => matchComponent(component, query))
+  ) as T
+}
+
+/**
+ * Read a query from URL query params, where lists are either repeated or comma-separated.
+ */
+export function parseComponentMetaQuery(params: Record<string, any>): ComponentMetaQuery {
+  const query: ComponentMetaQuery = {}
+  for (const key of ['prop', 'slot', 'event', 'exposed'] as const) {
+    const values = toArray(params[key]).flatMap(value => String(value).split(',')).map(value => value.trim()).filter(Boolean)
+    if (values.length) {
+      query[key] = values
+    }
+  }
+  for (const key of ['type', 'dir', 'prefix', 'search'] as const) {
+    if (params[key]) {
+      query[key] = String(params[key])
+    }
+  }
+  if (params.global !== undefined) {
+    query.global = params.global === true || params.global === '' || params.global === 'true'
+  }
+  return query
+}
+
+/**
+ * Write a query as URL query params, the reverse of `parseComponentMetaQuery`.
+ */
+export function stringifyComponentMetaQuery(query: ComponentMetaQuery = {}): Record<string, string> {
+  const params: Record<string, string> = {}
+  for (const [key, value] of Object.entries(query)) {
+    const values = toArray(value as string | string[] | boolean | undefined)
+    if (values.length) {
+      params[key] = values.join(',')
+    }
+  }
+  return params
+}
+
+function matchComponent(component: Record<string, any>, query: ComponentMetaQuery): boolean {
+  const meta = component.meta || {}
+
+  const members = {
+    prop: meta.props,
+    slot: meta.slots,
+    event: meta.events,
+    exposed: meta.exposed
+  }
+  for (const [key, list] of Object.entries(members) as [keyof typeof members, { name: string }[] | undefined][]) {
+    const names = toArray(query[key])
+    if (names.length && !names.every(name => (list || []).some(member => member.name === name))) {
+      return false
+    }
+  }
+
+  if (query.type) {
+    const propNames = toArray(query.prop)
+    const props = (meta.props || []).filter((prop: { name: string }) => !propNames.length || propNames.includes(prop.name))
+    const matchesType = (prop: { type?: string }) => String(prop.type || '').includes(query.type!)
+    if (!props.length || !(propNames.length ? props.every(matchesType) : props.some(matchesType))) {
+      return false
+    }
+  }
+
+  if (query.dir) {
+    const dir = `/${query.dir.replace(/^\.?\/+|\/+$/g, '')}/`
+    if (!`/${component.filePath || component.shortPath || ''}`.replace(/\\/g, '/').includes(dir)) {
+      return false
+    }
+  }
+
+  if (query.prefix && !normalizeName(component.pascalName).startsWith(normalizeName(query.prefix))) {
+    return false
+  }
+
+  if (query.global !== undefined && Boolean(component.global) !== query.global) {
+    return false
+  }
+
+  if (query.search) {
+    const text = [
+      component.pascalName,
+      component.kebabName,
+      meta.description,
+      ...Object.values(members).flatMap(list => (list || []).flatMap((member: { name: string, description?: string }) => [member.name, member.description]))
+    ].filter(Boolean).join('\n').toLowerCase()
+    if (!query.search.toLowerCase().split(/\s+/).filter(Boolean).every(term => text.includes(term))) {
+      return false
+    }
+  }
+
+  return true
+}
+
+function normalizeName(name = ''): string {
+  return name.replace(/[-_]/g, '').toLowerCase()
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  return Array.isArray(value) ? value : [value]
+}
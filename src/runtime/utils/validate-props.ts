@@ -0,0 +1,240 @@
+export interface ComponentPropsValidationError {
+  /**
+   * Path of the invalid value, e.g. `items[0].label`, empty for the props object itself.
+   */
+  path: string
+  message: string
+  /**
+   * Types accepted at this path.
+   */
+  expected?: string[]
+  /**
+   * Values accepted at this path, for enum props.
+   */
+  allowed?: unknown[]
+}
+
+export interface ComponentPropsValidationResult {
+  valid: boolean
+  errors: ComponentPropsValidationError[]
+}
+
+/**
+ * Validates a props object against a props JSON Schema generated by `propsToJsonSchema`.
+ *
+ * Only the keywords emitted by the schema converters are supported, so it can run in the browser
+ * and in Nitro without a JSON Schema validator dependency.
+ */
+export function validateProps(schema: Record<string, any>, props: Record<string, unknown>): ComponentPropsValidationResult {
+  const errors = validateValue(schema, props, '', schema)
+  return { valid: errors.length === 0, errors }
+}
+
+function validateValue(schema: Record<string, any> | boolean | undefined, value: unknown, path: string, root: Record<string, any>): ComponentPropsValidationError[] {
+  if (schema === undefined || schema === true) {
+    return []
+  }
+  if (schema === false) {
+    return [{ path, message: `Unexpected value${atPath(path)}` }]
+  }
+
+  if (typeof schema.$ref === 'string') {
+    const name = schema.$ref.replace(/^#\/(?:\$defs|definitions)\//, '')
+    return validateValue((root.$defs || root.definitions)?.[name], value, path, root)
+  }
+
+  if (schema.allOf) {
+    return schema.allOf.flatMap((member: Record<string, any>) => validateValue(member, value, path, root))
+  }
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map((member: Record<string, any>) => validateValue(member, value, path, root))
+    if (branches.some((branchErrors: ComponentPropsValidationError[]) => branchErrors.length === 0)) {
+      return []
+    }
+    // A single branch matching the value type gives more accurate errors than the union
+    const matching = schema.anyOf
+      .map((member: Record<string, any>, index: number) => ({ member, errors: branches[index] as ComponentPropsValidationError[] }))
+      .filter(({ member }: { member: Record<string, any> }) => member.type && matchesType(member.type, value) && !('const' in member) && !member.enum)
+    if (matching.length === 1) {
+      return matching[0].errors
+    }
+    return [describeUnion(schema.anyOf, path)]
+  }
+
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    return [{ path, message: `Expected ${JSON.stringify(schema.const)}${atPath(path)}`, allowed: [schema.const] }]
+  }
+
+  if (schema.enum && !schema.enum.some((option: unknown) => isEqual(option, value))) {
+    return [{ path, message: `Expected one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}${atPath(path)}`, allowed: schema.enum }]
+  }
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    const expected = toArray(schema.type)
+    return [{ path, message: `Expected ${expected.join(' or ')}${atPath(path)}, got ${typeOf(value)}`, expected }]
+  }
+
+  if (typeof value === 'string') {
+    return validateString(schema, value, path)
+  }
+  if (typeof value === 'number') {
+    return validateNumber(schema, value, path)
+  }
+  if (Array.isArray(value)) {
+    return validateArray(schema, value, path, root)
+  }
+  if (value !== null && typeof value === 'object') {
+    return validateObject(schema, value as Record<string, unknown>, path, root)
+  }
+
+  return []
+}
+
+function validateString(schema: Record<string, any>, value: string, path: string): ComponentPropsValidationError[] {
+  const errors: ComponentPropsValidationError[] = []
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ path, message: `Expected at least ${schema.minLength} characters${atPath(path)}` })
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push({ path, message: `Expected at most ${schema.maxLength} characters${atPath(path)}` })
+  }
+  if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) {
+    errors.push({ path, message: `Expected a string matching \`${schema.pattern}\`${atPath(path)}` })
+  }
+  return errors
+}
+
+function validateNumber(schema: Record<string, any>, value: number, path: string): ComponentPropsValidationError[] {
+  const errors: ComponentPropsValidationError[] = []
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, message: `Expected a number >= ${schema.minimum}${atPath(path)}` })
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push({ path, message: `Expected a number <= ${schema.maximum}${atPath(path)}` })
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    errors.push({ path, message: `Expected a number > ${schema.exclusiveMinimum}${atPath(path)}` })
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    errors.push({ path, message: `Expected a number < ${schema.exclusiveMaximum}${atPath(path)}` })
+  }
+  if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+    errors.push({ path, message: `Expected a multiple of ${schema.multipleOf}${atPath(path)}` })
+  }
+  return errors
+}
+
+function validateArray(schema: Record<string, any>, value: unknown[], path: string, root: Record<string, any>): ComponentPropsValidationError[] {
+  const errors: ComponentPropsValidationError[] = []
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({ path, message: `Expected at least ${schema.minItems} items${atPath(path)}` })
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push({ path, message: `Expected at most ${schema.maxItems} items${atPath(path)}` })
+  }
+
+  // Tuples are described with an array of items, and their rest element with additionalItems
+  const tuple = Array.isArray(schema.items) ? schema.items : schema.prefixItems
+  value.forEach((item, index) => {
+    const itemSchema = tuple
+      ? (index < tuple.length ? tuple[index] : (Array.isArray(schema.items) ? schema.additionalItems : schema.items))
+      : schema.items
+    errors.push(...validateValue(itemSchema, item, `${path}[${index}]`, root))
+  })
+  return errors
+}
+
+function validateObject(schema: Record<string, any>, value: Record<string, unknown>, path: string, root: Record<string, any>): ComponentPropsValidationError[] {
+  const errors: ComponentPropsValidationError[] = []
+
+  for (const key of schema.required || []) {
+    if (value[key] === undefined) {
+      errors.push({ path: joinPath(path, key), message: `Missing required property \`${joinPath(path, key)}\`` })
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) {
+      continue
+    }
+    const keyPath = joinPath(path, key)
+    if (schema.properties && key in schema.properties) {
+      errors.push(...validateValue(schema.properties[key], item, keyPath, root))
+      continue
+    }
+    const pattern = Object.keys(schema.patternProperties || {}).find(pattern => new RegExp(pattern, 'u').test(key))
+    if (pattern) {
+      errors.push(...validateValue(schema.patternProperties[pattern], item, keyPath, root))
+      continue
+    }
+    if (schema.additionalProperties === false) {
+      errors.push({ path: keyPath, message: `Unknown property \`${keyPath}\`` })
+      continue
+    }
+    errors.push(...validateValue(schema.additionalProperties, item, keyPath, root))
+  }
+
+  return errors
+}
+
+function describeUnion(members: Record<string, any>[], path: string): ComponentPropsValidationError {
+  const allowed = members.flatMap(member => 'const' in member ? [member.const] : (member.enum || []))
+  const expected = [...new Set(members.flatMap(member => 'const' in member || member.enum || !member.type ? [] : toArray(member.type)))]
+
+  const error: ComponentPropsValidationError = {
+    path,
+    message: [
+      expected.length ? expected.join(' or ') : '',
+      allowed.length ? `one of ${allowed.map(option => JSON.stringify(option)).join(', ')}` : ''
+    ].filter(Boolean).join(' or ')
+  }
+  error.message = `Expected ${error.message || 'a valid value'}${atPath(path)}`
+  if (expected.length) {
+    error.expected = expected
+  }
+  if (allowed.length) {
+    error.allowed = allowed
+  }
+  return error
+}
+
+function matchesType(type: string | string[], value: unknown): boolean {
+  return toArray(type).some((type) => {
+    switch (type) {
+      case 'null':
+        return value === null
+      case 'array':
+        return Array.isArray(value)
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value)
+      case 'integer':
+        return Number.isInteger(value)
+      default:
+        return typeof value === type
+    }
+  })
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  return Array.isArray(value) ? 'array' : typeof value
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b))
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value]
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+function atPath(path: string): string {
+  return path ? ` at \`${path}\`` : ''
+}
@@ -7,7 +7,7 @@ export interface ModuleOptions {
   /**
    * Directory where files metas are outputed upon parsing.
    *
-   * It will create `component-meta.d.ts` and `component-meta.mjs` files.
+   * It will create `component-meta.d.ts`, `component-meta.mjs` and `component-meta.schema.mjs` files.
    */
   outputDir?: string
   /**
@@ -22,6 +22,50 @@ export interface ModuleOptions {
    * 2 will log every timings for components parsing.
    */
   debug?: boolean | 2
+  /**
+   * Cache parsed components metas on disk so unchanged components are not parsed again.
+   *
+   * Entries are keyed on the component source, transformers, `metaFields`, `checkerOptions`,
+   * `overrides`, the installed `vue-component-meta` version and the project lockfile.
+   */
+  cache?: boolean
+  /**
+   * Directory where the parse cache is stored.
+   *
+   * Defaults to `node_modules/.cache/nuxt-component-meta` in `rootDir`.
+   */
+  cacheDir?: string
+  /**
+   * Number of worker threads used to parse components, each one running its own checker.
+   *
+   * Parallel parsing is enabled for values greater than 1 and requires `checkerOptions` to be serializable.
+   *
+   * @default 1
+   */
+  concurrency?: number
+  /**
+   * Fail the production build when any component could not be parsed.
+   *
+   * Errors are otherwise reported as warnings and in each component `diagnostics`.
+   */
+  failOnError?: boolean
+  /**
+   * Where `useComponentMeta` reads metas from in production.
+   *
+   * - `api`: fetch them from the `/api/component-meta` server routes
+   * - `bundle`: import them from the bundled per-component chunks, like in development
+   * - `prerendered-json`: fetch the `/component-meta/*.json` files emitted at build time, for static hosting
+   *
+   * @default 'api'
+   */
+  runtimeSource?: 'bundle' | 'api' | 'prerendered-json'
+  /**
+   * Validate components used in `@nuxt/content` Markdown files against their metas.
+   *
+   * Unknown or invalid props, missing required props and unknown slots are reported as warnings,
+   * or fail the production build with `'error'`.
+   */
+  validateContent?: boolean | 'warn' | 'error'
   /**
    * Components directories pushed in the include list.
    */
@@ -52,19 +96,25 @@ export interface ModuleOptions {
    * Filter all components that are not global.
    */
   globalsOnly?: boolean,
+  /**
+   * Patch parsed props, slots, events and exposed of components, by component name.
+   *
+   * Overrides are deep-merged into the parsed entries, `false` removes an entry and
+   * overrides declaring a `type` add entries missed by the checker.
+   */
   overrides: {
     [componentName: string]: {
       props?: {
         [propName: string]: {
-          "name": string,
+          "name"?: string,
           "global"?: boolean,
           "description"?: string,
           "tags"?: Array<{ "name": string, "text": string }>,
           "required"?: boolean,
-          "type": string,
+          "type"?: string,
           "schema"?: JsonSchema,
           "default"?: string
-        }
+        } | false
       }
       slots?: {
         [slotName: string]: any
@@ -77,6 +127,16 @@ export interface ModuleOptions {
       }
     }
   }
+  /**
+   * Overrides applied to every component matched by a rule, in order and before `overrides`.
+   *
+   * `match` can be a glob on the component path relative to `rootDir` (e.g. `components/ui/**`),
+   * a regex on the component name or a predicate receiving the component.
+   * Entries a matched component does not have are skipped silently, unless the override declares their `type`.
+   */
+  overrideRules?: (ModuleOptions['overrides'][string] & {
+    match: string | RegExp | ((component: any) => boolean)
+  })[]
   /**
    * Filter meta properties to be included in the output.
    */
@@ -95,6 +155,39 @@ export interface ModuleOptions {
   metaSources?: (string | Partial<NuxtComponentMeta>)[]
 }
 
+/**
+ * Metas declared from a component through the `extendComponentMeta()` macro.
+ */
+export interface ComponentMetaExtension {
+  /**
+   * Custom category used to group the component.
+   */
+  category?: string
+  /**
+   * Tags describing the component.
+   */
+  tags?: string[]
+  /**
+   * Usage examples, as code snippets.
+   */
+  examples?: string[]
+  /**
+   * Mark the component as deprecated, optionally with a migration message.
+   */
+  deprecated?: boolean | string
+  /**
+   * Overrides of the parsed props, merged like `ModuleOptions.overrides`.
+   */
+  props?: ModuleOptions['overrides'][string]['props']
+  slots?: ModuleOptions['overrides'][string]['slots']
+  events?: ModuleOptions['overrides'][string]['events']
+  exposed?: ModuleOptions['overrides'][string]['exposed']
+  /**
+   * Arbitrary custom metas.
+   */
+  custom?: Record<string, any>
+}
+
 export interface ModuleHooks {
   'component-meta:transformers'(data: TransformersHookData): void
   'component-meta:extend'(data: ExtendHookData): void
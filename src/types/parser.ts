@@ -7,11 +7,28 @@ export type ComponentMetaParserOptions = Omit<ModuleOptions, 'components' | 'met
   metaSources?: NuxtComponentMeta
   beforeWrite?: (schema: NuxtComponentMeta) => Promise<NuxtComponentMeta> | NuxtComponentMeta
 }
+export interface ComponentMetaDiagnostic {
+  message: string
+  /**
+   * Parsing step that failed.
+   */
+  phase: 'read' | 'transform' | 'checker' | 'extend' | 'refine' | 'defaults'
+  file?: string
+  /**
+   * Duration of the failed step in milliseconds.
+   */
+  duration: number
+}
+
 export type ComponentData = Omit<Component, 'filePath' | 'shortPath'> & {
   meta: ComponentMeta
   fullPath?: string
   filePath?: string,
   shortPath?: string,
+  /**
+   * Errors raised while parsing the component, only present when parsing failed.
+   */
+  diagnostics?: ComponentMetaDiagnostic[]
 }
 
 export type NuxtComponentMeta = Record<string, ComponentData>
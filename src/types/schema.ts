@@ -1,5 +1,10 @@
+export type JsonSchemaDialect = 'draft-07' | '2019-09' | '2020-12' | 'openapi-3.0' | 'openapi-3.1'
 
 export interface JsonSchema {
+  $schema?: string
+  $ref?: string
+  $defs?: Record<string, any>
+  definitions?: Record<string, any>
   type?: string | string[]
   properties?: Record<string, any>
   required?: string[]
@@ -9,5 +14,60 @@ export interface JsonSchema {
   allOf?: any[]
   enum?: any[]
   items?: any
-  additionalProperties?: boolean
-}
\ No newline at end of file
+  prefixItems?: any[]
+  const?: any
+  nullable?: boolean
+  minItems?: number
+  maxItems?: number
+  additionalProperties?: boolean | JsonSchema
+  patternProperties?: Record<string, any>
+  additionalItems?: boolean | JsonSchema
+  pattern?: string
+}
+
+/**
+ * Maps a JSDoc tag onto JSON Schema keywords by updating the property schema.
+ *
+ * @param schema JSON Schema of the property
+ * @param text Text of the tag, empty when the tag has no text
+ */
+export type JsonSchemaTagMapper = (schema: Record<string, any>, text: string) => void
+
+export interface JsonSchemaOptions {
+  /**
+   * Hoist named TypeScript types (e.g. `Link`) into `$defs` and reference them with `$ref`
+   * instead of inlining them in every property that uses them.
+   *
+   * This is also required to express recursive types.
+   *
+   * @default false
+   */
+  refs?: boolean
+  /**
+   * JSON Schema dialect of the output.
+   *
+   * JSON Schema dialects set `$schema` and use their own keywords for tuples and definitions.
+   * OpenAPI dialects produce schema objects for an OpenAPI document, where named types are always inlined:
+   * use `componentsToOpenApiSchemas()` to share them through `components.schemas`.
+   *
+   * When omitted, the output is a draft-07 compatible schema without `$schema`.
+   */
+  dialect?: JsonSchemaDialect
+  /**
+   * Additional JSDoc tag mappers keyed by tag name, `false` disables a default mapper.
+   *
+   * By default `@minimum`, `@maximum`, `@exclusiveMinimum`, `@exclusiveMaximum`, `@multipleOf`, `@minLength`,
+   * `@maxLength`, `@minItems`, `@maxItems`, `@pattern`, `@format`, `@example` and `@deprecated` are mapped onto
+   * standard JSON Schema keywords. `@since` can be mapped onto `x-since` with the exported `sinceTagMapper`.
+   */
+  tagMappers?: Record<string, JsonSchemaTagMapper | false>
+}
+
+export interface ValidatorSchemaOptions {
+  /**
+   * Reject unknown properties instead of stripping them.
+   *
+   * @default false
+   */
+  strict?: boolean
+}
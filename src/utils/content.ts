@@ -0,0 +1,287 @@
+import { logger } from '@nuxt/kit'
+import type { Nuxt } from '@nuxt/schema'
+import { camelCase, pascalCase } from 'scule'
+import fs, { existsSync } from 'fs'
+import { dirname, join, relative, resolve } from 'pathe'
+import { hash } from 'ohash'
+import type { NuxtComponentMeta } from '../types'
+import { validateProps } from '../runtime/utils/validate-props'
+import { propsToJsonSchema } from './schema'
+
+export interface MdcComponentUsage {
+  tag: string
+  /**
+   * 1-based line of the component in the Markdown source, when it could be located.
+   */
+  line?: number
+  props: Record<string, unknown>
+  slots: string[]
+}
+
+export interface MdcValidationIssue {
+  file?: string
+  line?: number
+  component: string
+  message: string
+}
+
+// Attributes forwarded to the component root element rather than declared as props
+const fallthroughAttributes = ['class', 'className', 'id', 'style', 'key', 'ref']
+const fallthroughPrefixes = ['data-', 'aria-', 'v-']
+
+/**
+ * List the components used in a parsed Markdown body, either as a `minimark` or a `root` tree.
+ *
+ * Passing the Markdown source locates each usage line.
+ */
+export function extractMdcUsages(body: any, source?: string): MdcComponentUsage[] {
+  const usages: MdcComponentUsage[] = []
+  const nodes = body?.type === 'minimark' ? body.value : (body?.children || [])
+
+  const visit = (node: any) => {
+    const element = toElement(node)
+    if (!element) {
+      return
+    }
+
+    if (element.tag !== 'template') {
+      usages.push({
+        tag: element.tag,
+        props: normalizeProps(element.props),
+        slots: getSlots(element.children)
+      })
+    }
+    element.children.forEach(visit)
+  }
+  nodes.forEach(visit)
+
+  if (source) {
+    locateUsages(usages, source)
+  }
+
+  return usages
+}
+
+/**
+ * Check components usages against their metas: unknown or invalid props, missing required props and unknown slots.
+ *
+ * Usages of tags that are not components, and of components that could not be parsed, are ignored.
+ */
+export function validateMdcUsages(usages: MdcComponentUsage[], components: NuxtComponentMeta): MdcValidationIssue[] {
+  const issues: MdcValidationIssue[] = []
+  const schemas: Record<string, Record<string, any>> = {}
+
+  for (const usage of usages) {
+    const name = pascalCase(usage.tag)
+    const component = components[name]
+    if (!component?.meta || component.diagnostics?.length) {
+      continue
+    }
+
+    if (component.meta.props) {
+      // Props are validated strictly to report unknown ones
+      schemas[name] ||= { ...propsToJsonSchema(component.meta.props), additionalProperties: false }
+      for (const error of validateProps(schemas[name], usage.props).errors) {
+        issues.push({ line: usage.line, component: name, message: error.message })
+      }
+    }
+
+    if (component.meta.slots) {
+      for (const slot of usage.slots) {
+        if (!component.meta.slots.some(({ name }) => name === slot)) {
+          issues.push({ line: usage.line, component: name, message: `Unknown slot \`${slot}\`` })
+        }
+      }
+    }
+  }
+
+  return issues
+}
+
+export interface ContentValidationOptions {
+  mode: 'warn' | 'error'
+  /**
+   * Directory where the components usages of parsed content files are cached.
+   */
+  cacheDir: string
+}
+
+interface CachedUsages {
+  /**
+   * Hash of the content file source the usages were extracted from.
+   */
+  hash: string
+  usages: MdcComponentUsage[]
+}
+
+/**
+ * Validate components usages in Markdown files parsed by `@nuxt/content`.
+ *
+ * Usages are collected while content is parsed, which happens before components metas are available,
+ * and validated once `validate()` is called with the parsed metas.
+ *
+ * Files served from the `@nuxt/content` cache are not parsed again, so usages are also cached on disk,
+ * keyed by the hash of each file source, and validated again from there.
+ */
+export function useContentValidation(nuxt: Nuxt, { mode, cacheDir }: ContentValidationOptions) {
+  const cachePath = join(cacheDir, 'content-usages.json')
+  const usages = readUsagesCache(cachePath, nuxt.options.rootDir)
+  let components: NuxtComponentMeta | undefined
+
+  const report = (issues: MdcValidationIssue[]) => {
+    if (!issues.length) {
+      return
+    }
+
+    const message = [
+      `${issues.length} invalid component usage(s) in content:`,
+      ...issues.map(issue => `  - ${issue.file}${issue.line ? `:${issue.line}` : ''} <${issue.component}> ${issue.message}`)
+    ].join('\n')
+
+    if (mode === 'error' && !nuxt.options.dev) {
+      throw new Error(`[nuxt-component-meta] ${message}`)
+    }
+    logger.warn(message)
+  }
+
+  const validateFile = (file: string) => validateMdcUsages(usages[file]?.usages || [], components || {})
+    .map(issue => ({ ...issue, file }))
+
+  nuxt.hook('content:file:afterParse' as any, ({ file, content }: { file: { path?: string, id?: string, body?: string }, content: { body?: any } }) => {
+    const path = file.path || file.id
+    if (!path || !content?.body) {
+      return
+    }
+
+    const source = typeof file.body === 'string' ? file.body : undefined
+    const key = relative(nuxt.options.rootDir, path)
+    usages[key] = {
+      hash: source === undefined ? '' : hash(source),
+      usages: extractMdcUsages(content.body, source)
+    }
+
+    // Files edited once components metas are known are validated right away
+    if (components) {
+      writeUsagesCache(cachePath, usages)
+      report(validateFile(key))
+    }
+  })
+
+  return {
+    validate (_components: NuxtComponentMeta) {
+      components = _components
+      writeUsagesCache(cachePath, usages)
+      report(Object.keys(usages).flatMap(validateFile))
+    }
+  }
+}
+
+/**
+ * Read cached usages, keeping only the entries whose content file is unchanged on disk.
+ *
+ * Changed files are parsed again by `@nuxt/content`, and removed ones are no longer validated.
+ */
+function readUsagesCache(cachePath: string, rootDir: string): Record<string, CachedUsages> {
+  const usages: Record<string, CachedUsages> = {}
+  if (!existsSync(cachePath)) {
+    return usages
+  }
+
+  let cached: Record<string, CachedUsages>
+  try {
+    cached = JSON.parse(fs.readFileSync(cachePath, 'utf-8'))
+  } catch {
+    // Corrupted cache, files will be validated when parsed again
+    return usages
+  }
+
+  for (const [file, entry] of Object.entries(cached)) {
+    const path = resolve(rootDir, file)
+    if (entry?.hash && existsSync(path) && hash(fs.readFileSync(path, 'utf-8')) === entry.hash) {
+      usages[file] = entry
+    }
+  }
+  return usages
+}
+
+function writeUsagesCache(cachePath: string, usages: Record<string, CachedUsages>) {
+  try {
+    fs.mkdirSync(dirname(cachePath), { recursive: true })
+    fs.writeFileSync(cachePath, JSON.stringify(usages), 'utf-8')
+  } catch {
+    // Cache is best effort
+  }
+}
+
+function toElement(node: any): { tag: string, props: Record<string, any>, children: any[] } | undefined {
+  if (Array.isArray(node)) {
+    const [tag, props, ...children] = node
+    return typeof tag === 'string' ? { tag, props: props || {}, children } : undefined
+  }
+  if (node?.type === 'element') {
+    return { tag: node.tag, props: node.props || {}, children: node.children || [] }
+  }
+  return undefined
+}
+
+function normalizeProps(props: Record<string, any>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(props)) {
+    const bound = key.startsWith(':')
+    const name = bound ? key.slice(1) : key
+    if (fallthroughAttributes.includes(name) || fallthroughPrefixes.some(prefix => name.startsWith(prefix))) {
+      continue
+    }
+    // Bound values are serialized, and take precedence over the plain attribute
+    if (bound) {
+      normalized[camelCase(name)] = parseBoundValue(value)
+    } else if (!(camelCase(name) in normalized)) {
+      normalized[camelCase(name)] = value
+    }
+  }
+  return normalized
+}
+
+function parseBoundValue(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value
+  }
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+function getSlots(children: any[]): string[] {
+  const slots = new Set<string>()
+  for (const child of children) {
+    const element = toElement(child)
+    const slot = element?.tag === 'template'
+      ? Object.keys(element.props).find(key => key.startsWith('v-slot:') || key.startsWith('#'))
+      : undefined
+    if (slot) {
+      slots.add(slot.replace(/^(?:v-slot:|#)/, ''))
+    } else if (element || (typeof child === 'string' ? child.trim() : child?.value?.trim())) {
+      slots.add('default')
+    }
+  }
+  return [...slots]
+}
+
+/**
+ * Match each usage with the next `:tag` or `::tag` occurrence of its tag in the source.
+ */
+function locateUsages(usages: MdcComponentUsage[], source: string) {
+  const offsets: Record<string, number> = {}
+  for (const usage of usages) {
+    const pattern = new RegExp(`(?<![\\w:-]):+${usage.tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w-])`, 'g')
+    pattern.lastIndex = offsets[usage.tag] || 0
+    const match = pattern.exec(source)
+    if (!match) {
+      continue
+    }
+    offsets[usage.tag] = pattern.lastIndex
+    usage.line = source.slice(0, match.index).split('\n').length
+  }
+}
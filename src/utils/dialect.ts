@@ -0,0 +1,282 @@
+import type { JsonSchemaDialect } from '../types/schema'
+
+const schemaUris: Partial<Record<JsonSchemaDialect, string>> = {
+  'draft-07': 'http://json-schema.org/draft-07/schema#',
+  '2019-09': 'https://json-schema.org/draft/2019-09/schema',
+  '2020-12': 'https://json-schema.org/draft/2020-12/schema'
+}
+
+export function isOpenApiDialect(dialect?: JsonSchemaDialect): boolean {
+  return dialect === 'openapi-3.0' || dialect === 'openapi-3.1'
+}
+
+/**
+ * Converts a root schema to the given dialect, adding `$schema` for JSON Schema dialects
+ */
+export function toDialect(schema: any, dialect: JsonSchemaDialect): any {
+  const converted = applyDialect(schema, dialect)
+  return schemaUris[dialect]
+    ? { $schema: schemaUris[dialect], ...converted }
+    : converted
+}
+
+/**
+ * Adjusts the keywords of a schema produced by the converters to the given dialect.
+ *
+ * Converters produce draft-07 keywords, except for definitions which are stored in `$defs`.
+ * Only schema locations are visited, so property names and values of `enum`, `const` or `default` are left untouched.
+ */
+export function applyDialect(schema: any, dialect: JsonSchemaDialect): any {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return schema
+  }
+
+  const result: any = {}
+  for (const [key, value] of Object.entries(schema)) {
+    switch (key) {
+      case 'properties':
+      case 'patternProperties':
+      case '$defs':
+        result[key] = mapValues(value as Record<string, any>, v => applyDialect(v, dialect))
+        break
+      case 'items':
+        result[key] = Array.isArray(value) ? value.map(v => applyDialect(v, dialect)) : applyDialect(value, dialect)
+        break
+      case 'anyOf':
+      case 'allOf':
+      case 'oneOf':
+        result[key] = (value as any[]).map(v => applyDialect(v, dialect))
+        break
+      case 'additionalProperties':
+      case 'additionalItems':
+      case 'not':
+        result[key] = applyDialect(value, dialect)
+        break
+      case '$ref':
+        result[key] = convertRef(value as string, dialect)
+        break
+      default:
+        result[key] = value
+    }
+  }
+
+  switch (dialect) {
+    case 'draft-07':
+      renameKey(result, '$defs', 'definitions')
+      break
+    case '2019-09':
+      break
+    case '2020-12':
+    case 'openapi-3.1':
+      if (Array.isArray(result.items)) {
+        renameKey(result, 'items', 'prefixItems')
+        renameKey(result, 'additionalItems', 'items')
+      }
+      break
+    case 'openapi-3.0':
+      toOpenApi30(result)
+      break
+  }
+
+  return result
+}
+
+function convertRef(ref: string, dialect: JsonSchemaDialect): string {
+  if (!ref.startsWith('#/$defs/')) {
+    return ref
+  }
+  const name = ref.slice('#/$defs/'.length)
+  if (dialect === 'draft-07') {
+    return `#/definitions/${name}`
+  }
+  if (isOpenApiDialect(dialect)) {
+    return `#/components/schemas/${name}`
+  }
+  return ref
+}
+
+const openApi30Keywords = new Set([
+  '$ref', 'title', 'description', 'type', 'format', 'default', 'example', 'enum', 'nullable', 'deprecated', 'readOnly', 'writeOnly',
+  'multipleOf', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'minLength', 'maxLength', 'pattern',
+  'items', 'minItems', 'maxItems', 'uniqueItems', 'properties', 'additionalProperties', 'required', 'minProperties', 'maxProperties',
+  'allOf', 'anyOf', 'oneOf', 'not', 'discriminator', 'xml', 'externalDocs'
+])
+
+/**
+ * OpenAPI 3.0 schema objects are a subset of draft-05: no `null` type, no type arrays, no `const`, no tuples and no `patternProperties`
+ */
+function toOpenApi30(schema: any) {
+  if ('const' in schema) {
+    schema.enum = [schema.const]
+    delete schema.const
+  }
+
+  if (Array.isArray(schema.examples)) {
+    if (schema.examples.length > 0) {
+      schema.example = schema.examples[0]
+    }
+    delete schema.examples
+  }
+
+  if (schema.type === 'null') {
+    delete schema.type
+    schema.nullable = true
+    schema.enum = [null]
+  } else if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type: string) => type !== 'null')
+    if (types.length !== schema.type.length) {
+      schema.nullable = true
+    }
+    if (types.length === 1) {
+      schema.type = types[0]
+    } else {
+      delete schema.type
+      schema.anyOf = [...(schema.anyOf || []), ...types.map((type: string) => ({ type }))]
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const nonNull = schema.anyOf.filter((s: any) => !(s.nullable && s.enum?.length === 1 && s.enum[0] === null))
+    if (nonNull.length !== schema.anyOf.length) {
+      schema.nullable = true
+      schema.anyOf = nonNull
+    }
+  }
+
+  if (Array.isArray(schema.enum) && schema.enum.includes(null)) {
+    schema.nullable = true
+  }
+
+  // `nullable` is ignored without a sibling `type`
+  if (schema.nullable && !schema.type) {
+    foldNullable(schema)
+  }
+  // `null` has to be listed in enums of nullable schemas
+  if (schema.nullable && Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+    schema.enum = [...schema.enum, null]
+  }
+
+  if (schema.patternProperties) {
+    const values = unique(Object.values(schema.patternProperties))
+    schema.additionalProperties = values.length === 1 ? values[0] : { anyOf: values }
+    delete schema.patternProperties
+  }
+
+  if (Array.isArray(schema.items)) {
+    const items = unique(schema.additionalItems ? [...schema.items, schema.additionalItems] : schema.items)
+    delete schema.additionalItems
+    if (items.length === 0) {
+      delete schema.items
+    } else {
+      schema.items = items.length === 1 ? items[0] : { anyOf: items }
+    }
+  }
+
+  // Exclusive bounds are booleans modifying `minimum` and `maximum`
+  convertExclusiveBound(schema, 'exclusiveMinimum', 'minimum', (a, b) => a >= b)
+  convertExclusiveBound(schema, 'exclusiveMaximum', 'maximum', (a, b) => a <= b)
+
+  // Other keywords are not allowed, they are kept as specification extensions
+  for (const key of Object.keys(schema)) {
+    if (!openApi30Keywords.has(key) && !key.startsWith('x-')) {
+      renameKey(schema, key, `x-${key}`)
+    }
+  }
+
+  // Siblings of `$ref` are ignored in OpenAPI 3.0
+  if (schema.$ref && Object.keys(schema).length > 1) {
+    schema.allOf = [{ $ref: schema.$ref }]
+    delete schema.$ref
+  }
+}
+
+/**
+ * Turn a numeric exclusive bound into its boolean form, keeping the stricter bound when both are set.
+ */
+function convertExclusiveBound(schema: any, exclusiveKey: string, boundKey: string, isStricter: (exclusive: number, bound: number) => boolean) {
+  const exclusive = schema[exclusiveKey]
+  if (typeof exclusive !== 'number') {
+    return
+  }
+  if (typeof schema[boundKey] === 'number' && !isStricter(exclusive, schema[boundKey])) {
+    Reflect.deleteProperty(schema, exclusiveKey)
+    return
+  }
+  schema[boundKey] = exclusive
+  schema[exclusiveKey] = true
+}
+
+/**
+ * Move `nullable` to schemas declaring a `type`: the single remaining member of a union is merged,
+ * members of larger unions are made nullable, and enums are typed from their values.
+ *
+ * Values that can only be `null` are described as a nullable object restricted to `null`.
+ */
+function foldNullable(schema: any) {
+  if (Array.isArray(schema.anyOf) && schema.anyOf.length === 1 && !schema.anyOf[0].$ref) {
+    const [member] = schema.anyOf
+    delete schema.anyOf
+    for (const [key, value] of Object.entries(member)) {
+      if (!(key in schema)) {
+        schema[key] = value
+      }
+    }
+  }
+  if (schema.type) {
+    return
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    delete schema.nullable
+    schema.anyOf = schema.anyOf.map((member: any) => member.type ? { ...member, nullable: true } : member)
+    // References can't be made nullable, `null` is accepted by a dedicated member instead
+    if (schema.anyOf.some((member: any) => !member.type)) {
+      schema.anyOf.push(nullSchema())
+    }
+    return
+  }
+
+  if (!Array.isArray(schema.enum)) {
+    Object.assign(schema, nullSchema(), { enum: [null] })
+    return
+  }
+
+  const types = [...new Set(schema.enum.filter((value: unknown) => value !== null).map((value: unknown) => typeof value))] as string[]
+  if (types.length === 0) {
+    Object.assign(schema, nullSchema())
+  } else if (types.length === 1) {
+    schema.type = types[0]
+  } else {
+    const values = schema.enum
+    delete schema.enum
+    delete schema.nullable
+    schema.anyOf = types.map(type => ({ type, nullable: true, enum: [...values.filter((value: unknown) => typeof value === type), null] }))
+  }
+}
+
+function nullSchema() {
+  return { type: 'object', nullable: true, enum: [null] }
+}
+
+function unique(schemas: any[]): any[] {
+  const seen = new Set<string>()
+  return schemas.filter((schema) => {
+    const key = JSON.stringify(schema)
+    if (seen.has(key)) {
+      return false
+    }
+    seen.add(key)
+    return true
+  })
+}
+
+function renameKey(schema: any, from: string, to: string) {
+  if (from in schema) {
+    schema[to] = schema[from]
+    Reflect.deleteProperty(schema, from)
+  }
+}
+
+function mapValues(record: Record<string, any>, fn: (value: any) => any): Record<string, any> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]))
+}
@@ -1 +1,17 @@
-export { propsToJsonSchema } from './schema'
+export {
+  propsToJsonSchema,
+  slotsToJsonSchema,
+  eventsToJsonSchema,
+  exposedToJsonSchema,
+  componentToJsonSchema,
+  componentsToJsonSchema,
+  componentsToOpenApiSchemas,
+  defaultTagMappers,
+  sinceTagMapper
+} from './schema'
+
+export { propsToZod, propsToValibot } from './validators'
+export { queryComponentMeta } from '../runtime/utils/query'
+export type { ComponentMetaQuery } from '../runtime/utils/query'
+export { projectComponentMeta, projectComponentsMeta } from '../runtime/utils/projection'
+export type { ComponentMetaProjection } from '../runtime/utils/projection'
@@ -1,13 +1,94 @@
 import type { ComponentMeta, PropertyMetaSchema } from 'vue-component-meta'
-import type { JsonSchema } from '../types/schema'
+import type { JsonSchema, JsonSchemaOptions, JsonSchemaTagMapper } from '../types/schema'
 import { isNativeBrowserType } from '../parser/utils'
+import { applyDialect, isOpenApiDialect, toDialect } from './dialect'
+import { convertTemplateLiteralType, isStringLiteral, parseTupleElements, splitTopLevel } from './type-string'
+
+/**
+ * State of a conversion, passed through the converters so nested conversions don't share it
+ */
+interface ConversionContext {
+  /**
+   * Named types hoisted while converting with `refs: true`, keyed by type name
+   */
+  defs?: Record<string, any>
+  /**
+   * JSDoc tag mappers, keyed by tag name
+   */
+  tagMappers: Record<string, JsonSchemaTagMapper>
+  /**
+   * Object schemas of the named types found in the converted metadata, keyed by type name
+   */
+  namedTypes: Record<string, Record<string, any>>
+  /**
+   * `Partial` types being converted, to stop on recursive types
+   */
+  partialTypes: Set<string>
+}
+
+const numberTag = (keyword: string): JsonSchemaTagMapper => (schema, text) => {
+  const value = Number(text.trim())
+  if (text.trim() && !Number.isNaN(value)) {
+    schema[keyword] = value
+  }
+}
+
+/**
+ * JSDoc tags mapped onto JSON Schema keywords by default
+ */
+export const defaultTagMappers: Record<string, JsonSchemaTagMapper> = {
+  minimum: numberTag('minimum'),
+  maximum: numberTag('maximum'),
+  exclusiveMinimum: numberTag('exclusiveMinimum'),
+  exclusiveMaximum: numberTag('exclusiveMaximum'),
+  multipleOf: numberTag('multipleOf'),
+  minLength: numberTag('minLength'),
+  maxLength: numberTag('maxLength'),
+  minItems: numberTag('minItems'),
+  maxItems: numberTag('maxItems'),
+  pattern: (schema, text) => {
+    // Accept both `^[a-z]+$` and regex literals like `/^[a-z]+$/`
+    const pattern = text.trim().replace(/^`(.*)`$/, '$1').replace(/^\/(.*)\/$/, '$1')
+    if (pattern) {
+      schema.pattern = pattern
+    }
+  },
+  format: (schema, text) => {
+    if (text.trim()) {
+      schema.format = text.trim()
+    }
+  },
+  example: (schema, text) => {
+    const example = text.trim().replace(/^```\w*\n?([\s\S]*?)\n?```$/, '$1').trim()
+    if (example) {
+      schema.examples = [...(schema.examples || []), parseDefaultValue(example)]
+    }
+  },
+  deprecated: (schema) => {
+    schema.deprecated = true
+  }
+}
+
+/**
+ * Map `@since` tags onto the custom `x-since` keyword, enabled with `tagMappers: { since: sinceTagMapper }`
+ */
+export const sinceTagMapper: JsonSchemaTagMapper = (schema, text) => {
+  if (text.trim()) {
+    schema['x-since'] = text.trim()
+  }
+}
 
 /**
  * Converts Vue component props metadata to JSON Schema format
  * @param props Array of Vue component prop metadata
+ * @param options Conversion options
  * @returns JSON Schema object
  */
-export function propsToJsonSchema(props: ComponentMeta['props']): JsonSchema {
+export function propsToJsonSchema(props: ComponentMeta['props'], options: JsonSchemaOptions = {}): JsonSchema {
+  return withSchemaDefs(options, props, ctx => convertProps(ctx, props))
+}
+
+function convertProps(ctx: ConversionContext, props: ComponentMeta['props']): JsonSchema {
   const schema: JsonSchema = {
     type: 'object',
     properties: {},
@@ -23,7 +104,7 @@ export function propsToJsonSchema(props: ComponentMeta['props']): JsonSchema {
     }
 
     // Convert Vue prop type to JSON Schema type
-    const propType = convertVueTypeToJsonSchema(prop.type, prop.schema as any)
+    const propType = convertVueTypeToJsonSchema(ctx, prop.type, prop.schema as any)
     // Ignore if the prop type is undefined
     if (!propType) {
       continue
@@ -31,11 +112,19 @@ export function propsToJsonSchema(props: ComponentMeta['props']): JsonSchema {
 
     Object.assign(propSchema, propType)
 
-    // Add default value if available and not already present, only for primitive types or for object with '{}'
-    if (prop.default !== undefined && propSchema.default === undefined) {
-      propSchema.default = parseDefaultValue(prop.default)
+    // Add default value if available and not already present, preferring the value statically evaluated by the parser
+    if ('defaultValue' in prop) {
+      if (propSchema.default === undefined) {
+        propSchema.default = (prop as { defaultValue: unknown }).defaultValue
+      }
+    } else if (prop.default !== undefined && prop.default !== 'undefined' && propSchema.default === undefined) {
+      // Code that can't be resolved, e.g. `new Date()`, is left out of the schema
+      const parsed = tryParseDefaultValue(prop.default)
+      if (parsed) {
+        propSchema.default = parsed.value
+      }
     }
-    
+
     // Also check for default values in tags
     if (propSchema.default === undefined && prop.tags) {
       const defaultValueTag = prop.tags.find(tag => tag.name === 'defaultValue')
@@ -44,6 +133,8 @@ export function propsToJsonSchema(props: ComponentMeta['props']): JsonSchema {
       }
     }
 
+    applyTags(ctx, propSchema, prop.tags)
+
     // Add the property to the schema
     schema.properties![prop.name] = propSchema
 
@@ -61,7 +152,251 @@ export function propsToJsonSchema(props: ComponentMeta['props']): JsonSchema {
   return schema
 }
 
-function convertVueTypeToJsonSchema(vueType: string, vueSchema: PropertyMetaSchema): any {
+/**
+ * Converts Vue component slots metadata to JSON Schema format
+ * @param slots Array of Vue component slot metadata
+ * @param options Conversion options
+ * @returns JSON Schema object with the scoped props schema of each slot
+ */
+export function slotsToJsonSchema(slots: ComponentMeta['slots'], options: JsonSchemaOptions = {}): JsonSchema {
+  return withSchemaDefs(options, slots, ctx => convertSlots(ctx, slots))
+}
+
+function convertSlots(ctx: ConversionContext, slots: ComponentMeta['slots']): JsonSchema {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {}
+  }
+
+  for (const slot of slots) {
+    const slotSchema: any = convertVueTypeToJsonSchema(ctx, slot.type, slot.schema as any) || {}
+    if (slot.description) {
+      slotSchema.description = slot.description
+    }
+    schema.properties![slot.name] = slotSchema
+  }
+
+  return schema
+}
+
+/**
+ * Converts Vue component events metadata to JSON Schema format
+ * @param events Array of Vue component event metadata
+ * @param options Conversion options
+ * @returns JSON Schema object with the payload of each event, as a tuple of its arguments
+ */
+export function eventsToJsonSchema(events: ComponentMeta['events'], options: JsonSchemaOptions = {}): JsonSchema {
+  return withSchemaDefs(options, events, ctx => convertEvents(ctx, events))
+}
+
+function convertEvents(ctx: ConversionContext, events: ComponentMeta['events']): JsonSchema {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {}
+  }
+
+  for (const event of events) {
+    const args = (Array.isArray(event.schema) ? event.schema : []).map((arg: PropertyMetaSchema) =>
+      convertVueTypeToJsonSchema(ctx, typeof arg === 'string' ? arg : arg.type, arg) || {}
+    )
+    const eventSchema: any = {
+      type: 'array',
+      minItems: args.length,
+      maxItems: args.length
+    }
+    if (args.length > 0) {
+      eventSchema.items = args
+    }
+    if (event.description) {
+      eventSchema.description = event.description
+    }
+    schema.properties![event.name] = eventSchema
+  }
+
+  return schema
+}
+
+/**
+ * Converts Vue component exposed metadata to JSON Schema format
+ *
+ * Exposed functions are skipped as they cannot be represented in JSON Schema.
+ * @param exposed Array of Vue component exposed metadata
+ * @param options Conversion options
+ * @returns JSON Schema object
+ */
+export function exposedToJsonSchema(exposed: ComponentMeta['exposed'], options: JsonSchemaOptions = {}): JsonSchema {
+  return withSchemaDefs(options, exposed, ctx => convertExposed(ctx, exposed))
+}
+
+function convertExposed(ctx: ConversionContext, exposed: ComponentMeta['exposed']): JsonSchema {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {}
+  }
+
+  for (const member of exposed) {
+    const memberSchema = convertVueTypeToJsonSchema(ctx, member.type, member.schema as any)
+    // Ignore functions and undefined types
+    if (!memberSchema || (typeof member.schema === 'object' && (member.schema as any)?.kind === 'event')) {
+      continue
+    }
+    if (member.description) {
+      memberSchema.description = member.description
+    }
+    schema.properties![member.name] = memberSchema
+  }
+
+  return schema
+}
+
+/**
+ * Converts Vue component metadata to a JSON Schema bundling its props, slots, events and exposed schemas
+ * @param meta Vue component metadata
+ * @param options Conversion options
+ * @returns JSON Schema object
+ */
+export function componentToJsonSchema(meta: Pick<ComponentMeta, 'props' | 'slots' | 'events' | 'exposed'>, options: JsonSchemaOptions = {}): JsonSchema {
+  return withSchemaDefs(options, meta, ctx => ({
+    type: 'object',
+    properties: {
+      props: convertProps(ctx, meta.props || []),
+      slots: convertSlots(ctx, meta.slots || []),
+      events: convertEvents(ctx, meta.events || []),
+      exposed: convertExposed(ctx, meta.exposed || [])
+    }
+  }))
+}
+
+/**
+ * Converts the props of many components to a single JSON Schema document
+ *
+ * Named types are always hoisted into a shared `$defs`, so a type used by several components is only described once.
+ * @param components Vue component metadata keyed by component name
+ * @param options Conversion options
+ * @returns JSON Schema object with the props schema of each component
+ */
+export function componentsToJsonSchema(components: Record<string, Pick<ComponentMeta, 'props'>>, options: Omit<JsonSchemaOptions, 'refs'> = {}): JsonSchema {
+  return withSchemaDefs({ ...options, refs: true }, components, ctx => convertComponents(ctx, components))
+}
+
+/**
+ * Converts the props of many components to the `components.schemas` section of an OpenAPI document
+ *
+ * Each component props schema is named `<ComponentName>Props`, and named types are shared as separate schemas.
+ * @param components Vue component metadata keyed by component name
+ * @param options Conversion options, `dialect` defaults to `openapi-3.1`
+ * @returns OpenAPI schema objects keyed by name
+ */
+export function componentsToOpenApiSchemas(components: Record<string, Pick<ComponentMeta, 'props'>>, options: { dialect?: 'openapi-3.0' | 'openapi-3.1' } = {}): Record<string, JsonSchema> {
+  const dialect = options.dialect || 'openapi-3.1'
+  const { properties, $defs } = withSchemaDefs({ refs: true }, components, ctx => convertComponents(ctx, components))
+
+  const schemas: Record<string, JsonSchema> = {}
+  for (const [name, schema] of Object.entries($defs || {})) {
+    schemas[name] = applyDialect(schema, dialect)
+  }
+  for (const [name, schema] of Object.entries(properties!)) {
+    schemas[`${name}Props`] = applyDialect(schema, dialect)
+  }
+  return schemas
+}
+
+function convertComponents(ctx: ConversionContext, components: Record<string, Pick<ComponentMeta, 'props'>>): JsonSchema {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {}
+  }
+  for (const [name, meta] of Object.entries(components)) {
+    schema.properties![name] = convertProps(ctx, meta.props || [])
+  }
+  return schema
+}
+
+/**
+ * Run a conversion with its own context, nested conversions (e.g. from a tag mapper) being independent.
+ */
+function withSchemaDefs(options: JsonSchemaOptions, metadata: unknown, convert: (ctx: ConversionContext) => JsonSchema): JsonSchema {
+  // Named types can't be referenced from a standalone OpenAPI schema object, they are inlined instead
+  const refs = options.refs && !isOpenApiDialect(options.dialect)
+
+  const ctx: ConversionContext = {
+    defs: refs ? {} : undefined,
+    tagMappers: resolveTagMappers(options.tagMappers),
+    namedTypes: collectNamedTypes(metadata),
+    partialTypes: new Set()
+  }
+  const schema = convert(ctx)
+  if (ctx.defs && Object.keys(ctx.defs).length > 0) {
+    schema.$defs = ctx.defs
+  }
+  return finalizeSchema(schema, options)
+}
+
+/**
+ * Index the object schemas of named types, so that generic types only known by their type string,
+ * e.g. `Partial<Position>`, can be resolved wherever `Position` is expanded in the metadata.
+ */
+function collectNamedTypes(metadata: unknown): Record<string, Record<string, any>> {
+  const types: Record<string, Record<string, any>> = {}
+  const visited = new WeakSet<object>()
+  const visit = (value: unknown) => {
+    if (!value || typeof value !== 'object' || visited.has(value)) {
+      return
+    }
+    visited.add(value)
+    const schema = value as Record<string, any>
+    if (
+      schema.kind === 'object' &&
+      typeof schema.type === 'string' &&
+      isNamedType(schema.type) &&
+      schema.schema && typeof schema.schema === 'object' && Object.keys(schema.schema).length > 0 &&
+      !Object.prototype.hasOwnProperty.call(types, schema.type)
+    ) {
+      types[schema.type] = schema.schema
+    }
+    Object.values(schema).forEach(visit)
+  }
+  visit(metadata)
+  return types
+}
+
+function resolveTagMappers(tagMappers: JsonSchemaOptions['tagMappers'] = {}): Record<string, JsonSchemaTagMapper> {
+  return Object.fromEntries(
+    Object.entries({ ...defaultTagMappers, ...tagMappers })
+      .filter((entry): entry is [string, JsonSchemaTagMapper] => !!entry[1])
+  )
+}
+
+/**
+ * Map JSDoc tags of a property onto JSON Schema keywords
+ */
+function applyTags(ctx: ConversionContext, schema: Record<string, any>, tags: { name: string, text?: string }[] | undefined) {
+  for (const tag of tags || []) {
+    ctx.tagMappers[tag.name]?.(schema, tag.text || '')
+  }
+}
+
+function finalizeSchema(schema: JsonSchema, options: JsonSchemaOptions): JsonSchema {
+  return options.dialect ? toDialect(schema, options.dialect) : schema
+}
+
+/**
+ * Registers a named type in `$defs` and returns a `$ref` pointing to it.
+ * The entry is reserved before converting so that recursive types resolve to the same `$ref`.
+ */
+function hoistNamedType(ctx: ConversionContext, name: string, convert: () => any): any {
+  if (!Object.prototype.hasOwnProperty.call(ctx.defs, name)) {
+    ctx.defs![name] = {}
+    ctx.defs![name] = convert()
+  }
+  return { $ref: `#/$defs/${name}` }
+}
+
+function isNamedType(type: string): boolean {
+  return /^[A-Z_$][\w$]*$/i.test(type) && type.toLowerCase() !== 'object' && !isNativeBrowserType(type)
+}
+
+function convertVueTypeToJsonSchema(ctx: ConversionContext, vueType: string, vueSchema: PropertyMetaSchema): any {
   // Skip function/event props as they're not useful in JSON Schema
   if (isFunctionProp(vueType, vueSchema)) {
     return undefined
@@ -75,9 +410,17 @@ function convertVueTypeToJsonSchema(vueType: string, vueSchema: PropertyMetaSche
     }
   }
   
+  // Unions involving generic or template literal types, e.g. `${number}px` | `${number}%`
+  if (typeof vueSchema === 'object' && vueSchema?.kind === 'enum' && vueSchema.schema) {
+    const values = Object.values(vueSchema.schema).filter(v => v !== 'undefined')
+    if (values.length > 1 && values.every(v => typeof v === 'string') && values.some(v => /[<`[]/.test(v as string))) {
+      return { anyOf: values.map(v => convertTypeString(ctx, v as string)) }
+    }
+  }
+
   // Check if this is an enum type
   if (isEnumType(vueType, vueSchema)) {
-    return convertEnumToJsonSchema(vueType, vueSchema)
+    return convertEnumToJsonSchema(ctx, vueType, vueSchema)
   }
   
   // Handle union types when schema is a string (e.g., "string | number | symbol")
@@ -88,7 +431,7 @@ function convertVueTypeToJsonSchema(vueType: string, vueSchema: PropertyMetaSche
     
     // If after removing undefined, there's still a union, convert it
     if (withoutUndefined.includes('|')) {
-      return convertUnionTypeFromString(withoutUndefined)
+      return convertUnionTypeFromString(ctx, withoutUndefined)
     }
     // If it's just a single type now, update both vueType and vueSchema and continue
     if (withoutUndefined) {
@@ -102,6 +445,17 @@ function convertVueTypeToJsonSchema(vueType: string, vueSchema: PropertyMetaSche
   if (enumValues && unwrappedType === 'boolean') {
     return { type: 'boolean', enum: enumValues }
   }
+  // Handle tuples, e.g. { kind: 'array', type: '[number, number]', schema: [ 'number', 'number' ] }
+  if (
+    unwrappedType.startsWith('[') &&
+    unwrappedType.endsWith(']') &&
+    unwrappedSchema &&
+    typeof unwrappedSchema === 'object' &&
+    unwrappedSchema.kind === 'array'
+  ) {
+    return convertTupleType(ctx, unwrappedType, Object.values(unwrappedSchema.schema || {}))
+  }
+
   // Handle array with nested object schema FIRST to avoid union logic for array types
   if (unwrappedType.endsWith('[]')) {
     const itemType = unwrappedType.replace(/\[\]$/, '').trim()
@@ -117,7 +471,7 @@ function convertVueTypeToJsonSchema(vueType: string, vueSchema: PropertyMetaSche
       const itemSchema = unwrappedSchema.schema[0]
       return {
         type: 'array',
-        items: convertVueTypeToJsonSchema(itemSchema.type || itemType, itemSchema)
+        items: convertVueTypeToJsonSchema(ctx, itemSchema.type || itemType, itemSchema)
       }
     }
 
@@ -138,7 +492,7 @@ function convertVueTypeToJsonSchema(vueType: string, vueSchema: PropertyMetaSche
       if (typeof itemSchema === 'string') {
         return {
           type: 'array',
-          items: convertSimpleType(itemSchema)
+          items: convertSimpleType(ctx, itemSchema)
         }
       }
       // If itemSchema is an enum (for union types)
@@ -153,13 +507,13 @@ function convertVueTypeToJsonSchema(vueType: string, vueSchema: PropertyMetaSche
       // Otherwise, recursively convert
       return {
         type: 'array',
-        items: convertVueTypeToJsonSchema(itemType, itemSchema)
+        items: convertVueTypeToJsonSchema(ctx, itemType, itemSchema)
       }
     }
     // Fallback: treat as primitive
     return {
       type: 'array',
-      items: convertSimpleType(itemType)
+      items: convertSimpleType(ctx, itemType)
     }
   }
 
@@ -196,29 +550,36 @@ function convertVueTypeToJsonSchema(vueType: string, vueSchema: PropertyMetaSche
         }
       }
       
-      const properties = convertNestedSchemaToJsonSchemaProperties(nested as Record<string, any>)
-      // Collect required fields
-      const required = Object.entries(nested)
-        .filter(([_, v]) => v && typeof v === 'object' && v.required)
-        .map(([k]) => k)
-      const schemaObj: any = {
-        type: 'object',
-        properties,
-        additionalProperties: false
-      }
-      if (required.length > 0) {
-        schemaObj.required = required
+      if (ctx.defs && isNamedType(unwrappedType)) {
+        return hoistNamedType(ctx, unwrappedType, () => convertObjectSchema(ctx, nested!))
       }
-      return schemaObj
+      return convertObjectSchema(ctx, nested)
     }
     // Fallback to generic object
     return { type: 'object' }
   }
   // Handle simple types
-  return convertSimpleType(unwrappedType)
+  return convertSimpleType(ctx, unwrappedType)
+}
+
+function convertObjectSchema(ctx: ConversionContext, nested: Record<string, any>): any {
+  const properties = convertNestedSchemaToJsonSchemaProperties(ctx, nested)
+  // Collect required fields
+  const required = Object.entries(nested)
+    .filter(([_, v]) => v && typeof v === 'object' && v.required)
+    .map(([k]) => k)
+  const schemaObj: any = {
+    type: 'object',
+    properties,
+    additionalProperties: false
+  }
+  if (required.length > 0) {
+    schemaObj.required = required
+  }
+  return schemaObj
 }
 
-function convertNestedSchemaToJsonSchemaProperties(nestedSchema: any): Record<string, any> {
+function convertNestedSchemaToJsonSchemaProperties(ctx: ConversionContext, nestedSchema: any): Record<string, any> {
   const properties: Record<string, any> = {}
   for (const key in nestedSchema) {
     const prop = nestedSchema[key]
@@ -232,17 +593,20 @@ function convertNestedSchemaToJsonSchemaProperties(nestedSchema: any): Record<st
     } else if (typeof prop === 'string') {
       type = prop
     }
-    const converted = convertVueTypeToJsonSchema(type, schema)
+    const converted = convertVueTypeToJsonSchema(ctx, type, schema)
     // Ignore if the converted type is undefined
     if (!converted) {
       continue
     }
 
-    properties[key] = convertVueTypeToJsonSchema(type, schema)
+    properties[key] = convertVueTypeToJsonSchema(ctx, type, schema)
     // Only add description if non-empty
     if (description) {
       properties[key].description = description
     }
+    if (prop && typeof prop === 'object') {
+      applyTags(ctx, properties[key], prop.tags)
+    }
     // Only add default if not the default value for the type, except for object with def = {}
     if (def !== undefined) {
       if (
@@ -259,7 +623,7 @@ function convertNestedSchemaToJsonSchemaProperties(nestedSchema: any): Record<st
   return properties
 }
 
-function convertSimpleType(type: string): any {
+function convertSimpleType(ctx: ConversionContext, type: string): any {
   switch (type.toLowerCase()) {
     case 'string':
       return { type: 'string' }
@@ -276,6 +640,23 @@ function convertSimpleType(type: string): any {
     case 'null':
       return { type: 'null' }
     default:
+      // Recursive types are only referenced by name once they have been expanded
+      if (ctx.defs && Object.prototype.hasOwnProperty.call(ctx.defs, type)) {
+        return { $ref: `#/$defs/${type}` }
+      }
+      // Generic and template literal types are not expanded by vue-component-meta, parse them from the type string
+      if (/^Record<.*>$/.test(type)) {
+        return convertRecordType(ctx, type)
+      }
+      if (/^Partial<.*>$/.test(type)) {
+        return convertPartialType(ctx, type)
+      }
+      if (/^Array<.*>$/.test(type)) {
+        return { type: 'array', items: convertTypeString(ctx, type.slice('Array<'.length, -1)) }
+      }
+      if (type.startsWith('`') && type.endsWith('`')) {
+        return { type: 'string', pattern: `^${convertTemplateLiteralType(type.slice(1, -1))}$` }
+      }
       // return object type as fallback with the type name as description
       if (type.includes('{}') || type.includes('Object')) {
         return { type: 'object' }
@@ -291,31 +672,136 @@ function convertSimpleType(type: string): any {
   }
 }
 
+/**
+ * Convert a tuple type to JSON Schema, e.g. `[x: number, label?: string]` or `[string, ...number[]]`
+ */
+function convertTupleType(ctx: ConversionContext, tupleType: string, elementSchemas: PropertyMetaSchema[]): any {
+  const elements = parseTupleElements(tupleType)
+  if (elements.length !== elementSchemas.length) {
+    return { type: 'array' }
+  }
+
+  const items: any[] = []
+  let minItems = 0
+  let additionalItems: any
+  for (const [index, element] of elements.entries()) {
+    const elementSchema = elementSchemas[index]!
+    const converted = convertVueTypeToJsonSchema(ctx, typeof elementSchema === 'string' ? elementSchema : elementSchema.type, elementSchema) || {}
+    // Rest elements are only supported in last position
+    if (element.rest) {
+      if (index !== elements.length - 1) {
+        return { type: 'array' }
+      }
+      additionalItems = converted
+      continue
+    }
+    if (!element.optional) {
+      minItems = items.length + 1
+    }
+    items.push(converted)
+  }
+
+  const schema: any = { type: 'array', items, minItems }
+  if (additionalItems) {
+    schema.additionalItems = additionalItems
+  } else {
+    schema.maxItems = items.length
+  }
+  return schema
+}
+
+/**
+ * Convert `Record<Keys, Value>` to JSON Schema
+ */
+function convertRecordType(ctx: ConversionContext, recordType: string): any {
+  const args = splitTopLevel(recordType.slice('Record<'.length, -1), ',')
+  if (args.length !== 2) {
+    return { type: 'object' }
+  }
+  const [keyType, valueType] = args as [string, string]
+  const valueSchema = convertTypeString(ctx, valueType)
+
+  // Known keys, e.g. Record<"a" | "b", string>
+  const keys = splitTopLevel(keyType, '|')
+  if (keys.every(isStringLiteral)) {
+    const names = keys.map(key => JSON.parse(key) as string)
+    return {
+      type: 'object',
+      properties: Object.fromEntries(names.map(name => [name, valueSchema])),
+      required: names,
+      additionalProperties: false
+    }
+  }
+
+  // Keys matching a pattern, e.g. Record<`data-${string}`, string>
+  if (keyType.startsWith('`') && keyType.endsWith('`')) {
+    return {
+      type: 'object',
+      patternProperties: { [`^${convertTemplateLiteralType(keyType.slice(1, -1))}$`]: valueSchema },
+      additionalProperties: false
+    }
+  }
+
+  return { type: 'object', additionalProperties: valueSchema }
+}
+
+/**
+ * Convert `Partial<Type>`, which can only be described when `Type` is expanded somewhere in the converted metadata
+ */
+function convertPartialType(ctx: ConversionContext, partialType: string): any {
+  const type = partialType.slice('Partial<'.length, -1).trim()
+  const nested = ctx.namedTypes[type]
+  // Recursive partial types are only described once
+  if (!nested || ctx.partialTypes.has(type)) {
+    return { type: 'object' }
+  }
+  ctx.partialTypes.add(type)
+  try {
+    const schema = convertObjectSchema(ctx, nested)
+    Reflect.deleteProperty(schema, 'required')
+    return schema
+  } finally {
+    ctx.partialTypes.delete(type)
+  }
+}
+
+/**
+ * Convert a type that is only known by its type string, e.g. the value type of a `Record`
+ */
+function convertTypeString(ctx: ConversionContext, type: string): any {
+  type = type.trim()
+  return convertVueTypeToJsonSchema(ctx, type, type) || {}
+}
+
 function parseDefaultValue(defaultValue: string): any {
+  const parsed = tryParseDefaultValue(defaultValue)
+  return parsed ? parsed.value : defaultValue
+}
+
+function tryParseDefaultValue(defaultValue: string): { value: any } | undefined {
   try {
     // Remove quotes if it's a string literal (both single and double quotes)
     if ((defaultValue.startsWith('"') && defaultValue.endsWith('"')) ||
         (defaultValue.startsWith("'") && defaultValue.endsWith("'"))) {
-      return defaultValue.slice(1, -1)
+      return { value: defaultValue.slice(1, -1) }
     }
 
     // Handle boolean literals
-    if (defaultValue === 'true') return true
-    if (defaultValue === 'false') return false
+    if (defaultValue === 'true') return { value: true }
+    if (defaultValue === 'false') return { value: false }
+    if (defaultValue === 'null') return { value: null }
 
     // Handle numbers
     if (/^-?\d+(\.\d+)?$/.test(defaultValue)) {
-      return parseFloat(defaultValue)
+      return { value: parseFloat(defaultValue) }
     }
 
     // Handle objects and arrays
     if (defaultValue.startsWith('{') || defaultValue.startsWith('[')) {
-      return JSON.parse(defaultValue)
+      return { value: JSON.parse(defaultValue) }
     }
-
-    return defaultValue
   } catch {
-    return defaultValue
+    // Not a JSON value
   }
 }
 
@@ -425,7 +911,7 @@ function isEnumType(vueType: string, vueSchema: PropertyMetaSchema): boolean {
 /**
  * Convert enum type to JSON Schema
  */
-function convertEnumToJsonSchema(vueType: string, vueSchema: PropertyMetaSchema): any {
+function convertEnumToJsonSchema(ctx: ConversionContext, vueType: string, vueSchema: PropertyMetaSchema): any {
   if (typeof vueSchema === 'object' && vueSchema?.kind === 'enum') {
     const schema = vueSchema.schema
     if (schema && typeof schema === 'object') {
@@ -537,7 +1023,7 @@ function convertEnumToJsonSchema(vueType: string, vueSchema: PropertyMetaSchema)
               return convertedIntersection
             } else {
               // Create anyOf with the intersection and other types
-              const otherSchemas = realTypes.map(t => convertSimpleType(t))
+              const otherSchemas = realTypes.map(t => convertSimpleType(ctx, t))
               return {
                 anyOf: [
                   ...otherSchemas,
@@ -666,8 +1152,16 @@ function convertIntersectionType(typeString: string): any | null {
 /**
  * Convert union type from string to JSON Schema
  */
-function convertUnionTypeFromString(unionString: string): any {
-  const types = unionString.split('|').map(t => t.trim())
+function convertUnionTypeFromString(ctx: ConversionContext, unionString: string): any {
+  const types = splitTopLevel(unionString, '|')
+  // Unions nested in a generic type, e.g. Array<string | number>
+  if (types.length === 1) {
+    return convertSimpleType(ctx, types[0]!)
+  }
+  // Unions of generic or template literal types, e.g. `${number}px` | `${number}%`
+  if (types.some(type => /[<`[]/.test(type))) {
+    return { anyOf: types.map(type => convertTypeString(ctx, type)) }
+  }
   const jsonTypes = types.map(type => {
     if (type === 'symbol') {
       return 'string' // JSON Schema doesn't have symbol type, map to string
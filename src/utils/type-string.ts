@@ -0,0 +1,85 @@
+/**
+ * Convert the content of a template literal type to a regular expression source, e.g. `${number}px`
+ */
+export function convertTemplateLiteralType(template: string): string {
+  return template.split(/(\$\{[^}]*\})/).map((part) => {
+    if (!part.startsWith('${')) {
+      return escapeRegExp(part)
+    }
+    const type = part.slice(2, -1).trim()
+    switch (type) {
+      case 'number':
+        return '-?\\d+(?:\\.\\d+)?'
+      case 'bigint':
+        return '-?\\d+'
+      case 'boolean':
+        return '(?:true|false)'
+      default: {
+        const literals = splitTopLevel(type, '|')
+        if (literals.every(isStringLiteral)) {
+          return `(?:${literals.map(literal => escapeRegExp(JSON.parse(literal))).join('|')})`
+        }
+        return '.*'
+      }
+    }
+  }).join('')
+}
+
+export function isStringLiteral(type: string): boolean {
+  return /^"(?:[^"\\]|\\.)*"$/.test(type)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Parse the elements of a tuple type, e.g. `[label: string, value?: number, ...rest: boolean[]]`
+ */
+export function parseTupleElements(tupleType: string): { optional: boolean, rest: boolean }[] {
+  return splitTopLevel(tupleType.slice(1, -1), ',').map((element) => {
+    // Named elements, e.g. `label?: string`
+    const name = element.match(/^[\w$]+(\?)?:/)
+    return {
+      optional: name ? !!name[1] : element.endsWith('?'),
+      rest: element.startsWith('...')
+    }
+  })
+}
+
+/**
+ * Split a type string on a separator, ignoring separators nested in brackets, generics or literals
+ */
+export function splitTopLevel(type: string, separator: ',' | '|'): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quote: string | undefined
+  let current = ''
+  for (let i = 0; i < type.length; i++) {
+    const char = type[i]!
+    if (quote) {
+      if (char === '\\') {
+        current += char + (type[++i] ?? '')
+        continue
+      }
+      if (char === quote) {
+        quote = undefined
+      }
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char
+    } else if ('([{<'.includes(char)) {
+      depth++
+    } else if (')]}>'.includes(char) && type[i - 1] !== '=') {
+      depth--
+    } else if (char === separator && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+      continue
+    }
+    current += char
+  }
+  if (current.trim()) {
+    parts.push(current.trim())
+  }
+  return parts
+}
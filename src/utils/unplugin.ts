@@ -2,6 +2,7 @@ import { createUnplugin } from 'unplugin'
 import { useComponentMetaParser } from '../parser/meta-parser'
 import type { ComponentMetaParser } from '../parser/meta-parser'
 import type { ComponentMetaParserOptions } from '../types/parser'
+import { stripExtendComponentMeta } from '../parser/extend'
 
 type ComponentMetaUnpluginOptions = { parser?: ComponentMetaParser, parserOptions: ComponentMetaParserOptions }
 
@@ -19,8 +20,13 @@ export const metaPlugin = createUnplugin<ComponentMetaUnpluginOptions>(({ parser
           return
         }
 
-        instance?.fetchComponents()
+        await instance?.fetchComponents()
         await instance?.updateOutput()
+
+        const failedComponents = instance?.getFailedComponents() || []
+        if (parserOptions.failOnError && failedComponents.length && !_configResolved?.env.DEV) {
+          throw new Error(`[nuxt-component-meta] Could not parse ${failedComponents.map(component => component.pascalName).join(', ')}`)
+        }
       },
       buildEnd () {
         if (!_configResolved?.env.DEV && _configResolved?.env.PROD) {
@@ -34,11 +40,43 @@ export const metaPlugin = createUnplugin<ComponentMetaUnpluginOptions>(({ parser
           _configResolved = config
         },
         async handleHotUpdate ({ file }) {
-          if (instance && Object.entries(instance.components).some(([, comp]: any) => comp.fullPath === file)) {
+          if (!instance) {
+            return
+          }
+
+          const isComponent = Object.entries(instance.components).some(([, comp]: any) => comp.fullPath === file)
+          // Components whose props/slots types are resolved from the updated file
+          const dependents = instance.getDependentComponents(file)
+          if (!isComponent && !dependents.length) {
+            return
+          }
+
+          instance.refreshFile(file)
+          if (isComponent) {
             instance.fetchComponent(file)
-            await instance.updateOutput()
           }
+          for (const component of dependents) {
+            instance.fetchComponent(component)
+          }
+          await instance.updateOutput()
         }
       }
     }
   })
+
+/**
+ * Strip the `extendComponentMeta()` compiler macro from components before Vue compiles them.
+ */
+export const extendMetaMacroPlugin = createUnplugin(() => ({
+  name: 'vite-plugin-nuxt-component-meta-macro',
+  enforce: 'pre',
+  transformInclude (id) {
+    return id.endsWith('.vue')
+  },
+  transform (code, id) {
+    const stripped = stripExtendComponentMeta(code, id)
+    if (stripped !== code) {
+      return { code: stripped, map: null }
+    }
+  }
+}))
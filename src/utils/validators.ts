@@ -0,0 +1,412 @@
+import type { ComponentMeta, PropertyMetaSchema } from 'vue-component-meta'
+import type { ValidatorSchemaOptions } from '../types/schema'
+import { convertTemplateLiteralType, isStringLiteral, parseTupleElements, splitTopLevel } from './type-string'
+
+/**
+ * Simplified type tree built from the vue-component-meta schema, shared by the Zod and Valibot generators
+ */
+type TypeNode =
+  | { type: 'string' | 'number' | 'boolean' | 'null' | 'any' }
+  | { type: 'literal', value: string | number | boolean }
+  | { type: 'pattern', pattern: string }
+  | { type: 'union', options: TypeNode[] }
+  | { type: 'array', items: TypeNode }
+  | { type: 'tuple', items: PropertyNode[], rest?: TypeNode }
+  | { type: 'record', key: TypeNode, value: TypeNode }
+  | { type: 'object', properties: Record<string, PropertyNode> }
+
+interface PropertyNode {
+  node: TypeNode
+  required: boolean
+  description?: string
+}
+
+/**
+ * Schema expressed as library calls, so it can be either printed as code or evaluated against the library
+ */
+type Expr =
+  | { call: string, args: Expr[] }
+  | { method: string, on: Expr, args: Expr[] }
+  | { value: unknown }
+  | { array: Expr[] }
+  | { object: Record<string, Expr> }
+
+interface SchemaBuilder {
+  namespace: string
+  build: (node: TypeNode, options: ValidatorSchemaOptions) => Expr
+  wrap: (expr: Expr, property: PropertyNode) => Expr
+}
+
+/**
+ * Converts Vue component props metadata to a Zod schema
+ *
+ * Pass the `z` namespace from `zod` to get a runtime schema, or omit it to get the schema source code,
+ * which expects `z` to be imported from `zod`.
+ * @param props Array of Vue component prop metadata
+ * @param options Generation options
+ * @returns Zod object schema, or its source code
+ */
+export function propsToZod(props: ComponentMeta['props'], options?: ValidatorSchemaOptions & { z?: undefined }): string
+export function propsToZod(props: ComponentMeta['props'], options: ValidatorSchemaOptions & { z: any }): any
+export function propsToZod(props: ComponentMeta['props'], options: ValidatorSchemaOptions & { z?: any } = {}): any {
+  return generate(zodBuilder, props, options, options.z)
+}
+
+/**
+ * Converts Vue component props metadata to a Valibot schema
+ *
+ * Pass the `v` namespace (`import * as v from 'valibot'`) to get a runtime schema, or omit it to get the schema source code,
+ * which expects `v` to be imported the same way.
+ * @param props Array of Vue component prop metadata
+ * @param options Generation options
+ * @returns Valibot object schema, or its source code
+ */
+export function propsToValibot(props: ComponentMeta['props'], options?: ValidatorSchemaOptions & { v?: undefined }): string
+export function propsToValibot(props: ComponentMeta['props'], options: ValidatorSchemaOptions & { v: any }): any
+export function propsToValibot(props: ComponentMeta['props'], options: ValidatorSchemaOptions & { v?: any } = {}): any {
+  return generate(valibotBuilder, props, options, options.v)
+}
+
+const zodBuilder: SchemaBuilder = {
+  namespace: 'z',
+  build(node, options) {
+    switch (node.type) {
+      case 'literal':
+        return call('literal', value(node.value))
+      case 'pattern':
+        return method(call('string'), 'regex', value(new RegExp(node.pattern)))
+      case 'array':
+        return call('array', this.build(node.items, options))
+      case 'tuple': {
+        const schema = call('tuple', buildItems(this, node.items, options))
+        return node.rest ? method(schema, 'rest', this.build(node.rest, options)) : schema
+      }
+      case 'record':
+        return call('record', this.build(node.key, options), this.build(node.value, options))
+      case 'object': {
+        const schema = call('object', buildProperties(this, node.properties, options))
+        return options.strict ? method(schema, 'strict') : schema
+      }
+      case 'union': {
+        const { options: members, nullable } = splitNullable(node.options)
+        const schema = isStringEnum(members)
+          ? call('enum', value(members.map(member => (member as { value: string }).value)))
+          : members.length === 1
+            ? this.build(members[0]!, options)
+            : call('union', { array: members.map(member => this.build(member, options)) })
+        return nullable ? method(schema, 'nullable') : schema
+      }
+      default:
+        return call(node.type)
+    }
+  },
+  wrap(expr, property) {
+    if (!property.required) {
+      expr = method(expr, 'optional')
+    }
+    if (property.description) {
+      expr = method(expr, 'describe', value(property.description))
+    }
+    return expr
+  }
+}
+
+const valibotBuilder: SchemaBuilder = {
+  namespace: 'v',
+  build(node, options) {
+    switch (node.type) {
+      case 'literal':
+        return call('literal', value(node.value))
+      case 'pattern':
+        return call('pipe', call('string'), call('regex', value(new RegExp(node.pattern))))
+      case 'array':
+        return call('array', this.build(node.items, options))
+      case 'tuple':
+        return node.rest
+          ? call('tupleWithRest', buildItems(this, node.items, options), this.build(node.rest, options))
+          : call(options.strict ? 'strictTuple' : 'tuple', buildItems(this, node.items, options))
+      case 'record':
+        return call('record', this.build(node.key, options), this.build(node.value, options))
+      case 'object':
+        return call(options.strict ? 'strictObject' : 'object', buildProperties(this, node.properties, options))
+      case 'union': {
+        const { options: members, nullable } = splitNullable(node.options)
+        const schema = isStringEnum(members)
+          ? call('picklist', value(members.map(member => (member as { value: string }).value)))
+          : members.length === 1
+            ? this.build(members[0]!, options)
+            : call('union', { array: members.map(member => this.build(member, options)) })
+        return nullable ? call('nullable', schema) : schema
+      }
+      default:
+        return call(node.type)
+    }
+  },
+  wrap(expr, property) {
+    if (!property.required) {
+      expr = call('optional', expr)
+    }
+    if (property.description) {
+      expr = call('pipe', expr, call('description', value(property.description)))
+    }
+    return expr
+  }
+}
+
+function generate(builder: SchemaBuilder, props: ComponentMeta['props'], options: ValidatorSchemaOptions, lib: any) {
+  const properties: Record<string, PropertyNode> = {}
+  for (const prop of props) {
+    const node = toTypeNode(prop.schema, prop.type)
+    // Function/event props can't be validated as data
+    if (!node) {
+      continue
+    }
+    properties[prop.name] = { node, required: prop.required, description: prop.description || undefined }
+  }
+
+  const expr = builder.build({ type: 'object', properties }, options)
+  return lib ? evaluate(expr, lib) : print(expr, builder.namespace)
+}
+
+function buildProperties(builder: SchemaBuilder, properties: Record<string, PropertyNode>, options: ValidatorSchemaOptions): Expr {
+  const object: Record<string, Expr> = {}
+  for (const [name, property] of Object.entries(properties)) {
+    object[name] = builder.wrap(builder.build(property.node, options), property)
+  }
+  return { object }
+}
+
+function buildItems(builder: SchemaBuilder, items: PropertyNode[], options: ValidatorSchemaOptions): Expr {
+  return { array: items.map(item => builder.wrap(builder.build(item.node, options), item)) }
+}
+
+/**
+ * Converts a vue-component-meta schema to a type node, or `undefined` for functions
+ */
+function toTypeNode(schema: PropertyMetaSchema | undefined, type = 'any'): TypeNode | undefined {
+  if (schema === undefined) {
+    schema = type
+  }
+
+  if (typeof schema === 'string') {
+    return parseTypeString(schema)
+  }
+
+  switch (schema.kind) {
+    case 'event':
+      return undefined
+    case 'enum': {
+      const members = Object.values(schema.schema || {})
+        .filter(member => member !== 'undefined')
+        .map(member => toTypeNode(member))
+        .filter(member => member !== undefined)
+      return members.length > 0 ? union(members) : undefined
+    }
+    case 'array': {
+      if (schema.type.startsWith('[') && schema.type.endsWith(']')) {
+        return toTupleNode(schema.type, Object.values(schema.schema || {}))
+      }
+      const [items] = Object.values(schema.schema || {})
+      return { type: 'array', items: (items && toTypeNode(items)) || { type: 'any' } }
+    }
+    case 'object': {
+      const properties: Record<string, PropertyNode> = {}
+      for (const [name, prop] of Object.entries(schema.schema || {})) {
+        const node = toTypeNode(prop.schema, prop.type)
+        if (node) {
+          properties[name] = { node, required: prop.required, description: prop.description || undefined }
+        }
+      }
+      return { type: 'object', properties }
+    }
+  }
+
+  return { type: 'any' }
+}
+
+function parseTypeString(type: string): TypeNode | undefined {
+  type = type.trim()
+
+  if (type.includes('=>')) {
+    return undefined
+  }
+
+  // Unions such as `string | number | undefined`
+  const unionMembers = splitTopLevel(type, '|')
+  if (unionMembers.length > 1) {
+    const members = unionMembers
+      .filter(member => member !== 'undefined')
+      .map(member => parseTypeString(member))
+      .filter(member => member !== undefined)
+    return members.length > 0 ? union(members) : undefined
+  }
+
+  switch (type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'null':
+      return { type }
+    case 'symbol':
+      return { type: 'string' }
+    case 'true':
+    case 'false':
+      return { type: 'literal', value: type === 'true' }
+  }
+
+  if (/^"(?:[^"\\]|\\.)*"$/.test(type)) {
+    return { type: 'literal', value: JSON.parse(type) }
+  }
+  if (/^-?\d+(?:\.\d+)?$/.test(type)) {
+    return { type: 'literal', value: Number(type) }
+  }
+  if (type.endsWith('[]') && /^\w+\[\]$/.test(type)) {
+    return { type: 'array', items: parseTypeString(type.slice(0, -2)) || { type: 'any' } }
+  }
+  if (type.startsWith('`') && type.endsWith('`')) {
+    return { type: 'pattern', pattern: `^${convertTemplateLiteralType(type.slice(1, -1))}$` }
+  }
+  if (type.startsWith('Record<') && type.endsWith('>')) {
+    return parseRecordType(type)
+  }
+
+  // Named types that were not expanded, such as recursive or native types
+  return { type: 'any' }
+}
+
+function toTupleNode(tupleType: string, elementSchemas: PropertyMetaSchema[]): TypeNode {
+  const elements = parseTupleElements(tupleType)
+  if (elements.length !== elementSchemas.length) {
+    return { type: 'array', items: { type: 'any' } }
+  }
+
+  const items: PropertyNode[] = []
+  let rest: TypeNode | undefined
+  for (const [index, element] of elements.entries()) {
+    const node = toTypeNode(elementSchemas[index]) || { type: 'any' }
+    // Rest elements are only supported in last position
+    if (element.rest) {
+      if (index !== elements.length - 1) {
+        return { type: 'array', items: { type: 'any' } }
+      }
+      rest = node
+      continue
+    }
+    items.push({ node, required: !element.optional })
+  }
+  return { type: 'tuple', items, rest }
+}
+
+function parseRecordType(recordType: string): TypeNode {
+  const args = splitTopLevel(recordType.slice('Record<'.length, -1), ',')
+  if (args.length !== 2) {
+    return { type: 'any' }
+  }
+  const [keyType, valueType] = args as [string, string]
+  const value = parseTypeString(valueType) || { type: 'any' }
+
+  // Known keys, e.g. Record<"a" | "b", string>
+  const keys = splitTopLevel(keyType, '|')
+  if (keys.every(isStringLiteral)) {
+    return {
+      type: 'object',
+      properties: Object.fromEntries(keys.map(key => [JSON.parse(key), { node: value, required: true }]))
+    }
+  }
+
+  // Keys matching a pattern, e.g. Record<`data-${string}`, string>
+  const key = parseTypeString(keyType)
+  return { type: 'record', key: key?.type === 'pattern' ? key : { type: 'string' }, value }
+}
+
+function union(members: TypeNode[]): TypeNode {
+  const options: TypeNode[] = []
+  for (const member of members.flatMap(member => member.type === 'union' ? member.options : [member])) {
+    if (!options.some(option => JSON.stringify(option) === JSON.stringify(member))) {
+      options.push(member)
+    }
+  }
+
+  // `true | false` is how TypeScript expands `boolean`
+  const trueIndex = options.findIndex(option => option.type === 'literal' && option.value === true)
+  const falseIndex = options.findIndex(option => option.type === 'literal' && option.value === false)
+  if (trueIndex !== -1 && falseIndex !== -1) {
+    options.splice(Math.max(trueIndex, falseIndex), 1)
+    options.splice(Math.min(trueIndex, falseIndex), 1, { type: 'boolean' })
+  }
+
+  if (options.some(option => option.type === 'any')) {
+    return { type: 'any' }
+  }
+  return options.length === 1 ? options[0]! : { type: 'union', options }
+}
+
+function splitNullable(members: TypeNode[]): { options: TypeNode[], nullable: boolean } {
+  const options = members.filter(member => member.type !== 'null')
+  return options.length > 0
+    ? { options, nullable: options.length !== members.length }
+    : { options: members, nullable: false }
+}
+
+function isStringEnum(members: TypeNode[]): boolean {
+  return members.length > 1 && members.every(member => member.type === 'literal' && typeof member.value === 'string')
+}
+
+function call(name: string, ...args: Expr[]): Expr {
+  return { call: name, args }
+}
+
+function method(on: Expr, name: string, ...args: Expr[]): Expr {
+  return { method: name, on, args }
+}
+
+function value(value: unknown): Expr {
+  return { value }
+}
+
+function evaluate(expr: Expr, lib: any): any {
+  if ('call' in expr) {
+    return lib[expr.call](...expr.args.map(arg => evaluate(arg, lib)))
+  }
+  if ('method' in expr) {
+    return evaluate(expr.on, lib)[expr.method](...expr.args.map(arg => evaluate(arg, lib)))
+  }
+  if ('array' in expr) {
+    return expr.array.map(item => evaluate(item, lib))
+  }
+  if ('object' in expr) {
+    return Object.fromEntries(Object.entries(expr.object).map(([key, item]) => [key, evaluate(item, lib)]))
+  }
+  return expr.value
+}
+
+function print(expr: Expr, namespace: string, indent = ''): string {
+  if ('call' in expr) {
+    return `${namespace}.${expr.call}(${expr.args.map(arg => print(arg, namespace, indent)).join(', ')})`
+  }
+  if ('method' in expr) {
+    return `${print(expr.on, namespace, indent)}.${expr.method}(${expr.args.map(arg => print(arg, namespace, indent)).join(', ')})`
+  }
+  if ('array' in expr) {
+    return `[${expr.array.map(item => print(item, namespace, indent)).join(', ')}]`
+  }
+  if ('object' in expr) {
+    const entries = Object.entries(expr.object)
+    if (entries.length === 0) {
+      return '{}'
+    }
+    const inner = `${indent}  `
+    const lines = entries.map(([key, item]) => `${inner}${printKey(key)}: ${print(item, namespace, inner)}`)
+    return `{\n${lines.join(',\n')}\n${indent}}`
+  }
+  if (expr.value instanceof RegExp) {
+    return String(expr.value)
+  }
+  return Array.isArray(expr.value)
+    ? `[${expr.value.map(item => JSON.stringify(item)).join(', ')}]`
+    : JSON.stringify(expr.value)
+}
+
+function printKey(key: string): string {
+  return /^[A-Z_$][\w$]*$/i.test(key) ? key : JSON.stringify(key)
+}
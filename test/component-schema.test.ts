@@ -0,0 +1,119 @@
+import { describe, test, expect } from 'vitest'
+import Ajv from 'ajv'
+import { componentToJsonSchema, eventsToJsonSchema, exposedToJsonSchema, slotsToJsonSchema } from '../src/utils/schema'
+
+const slots = [
+  {
+    name: 'default',
+    type: '{ item: { id: number; label: string; }; }',
+    description: 'The item slot',
+    tags: [],
+    schema: {
+      kind: 'object',
+      type: '{ item: { id: number; label: string; }; }',
+      schema: {
+        item: {
+          name: 'item',
+          global: false,
+          description: '',
+          tags: [],
+          required: true,
+          type: '{ id: number; label: string; }',
+          schema: {
+            kind: 'object',
+            type: '{ id: number; label: string; }',
+            schema: {
+              id: { name: 'id', global: false, description: '', tags: [], required: true, type: 'number', schema: 'number' },
+              label: { name: 'label', global: false, description: '', tags: [], required: true, type: 'string', schema: 'string' }
+            }
+          }
+        }
+      }
+    }
+  },
+  { name: 'header', type: 'any', description: '', tags: [], schema: 'any' }
+] as any
+
+const events = [
+  {
+    name: 'change',
+    description: '',
+    tags: [],
+    type: '[value: string, index: number]',
+    signature: '(event: "change", value: string, index: number): void',
+    schema: ['string', 'number']
+  },
+  {
+    name: 'close',
+    description: '',
+    tags: [],
+    type: '[]',
+    signature: '(event: "close"): void',
+    schema: []
+  }
+] as any
+
+const exposed = [
+  { name: 'focus', type: '() => void', description: '', tags: [], schema: { kind: 'event', type: '(): void' } },
+  { name: 'count', type: 'number', description: 'Current count', tags: [], schema: 'number' }
+] as any
+
+describe('Component JSON Schema', () => {
+  test('should convert slots scoped props', () => {
+    expect(slotsToJsonSchema(slots)).toEqual({
+      type: 'object',
+      properties: {
+        default: {
+          type: 'object',
+          description: 'The item slot',
+          properties: {
+            item: {
+              type: 'object',
+              properties: {
+                id: { type: 'number' },
+                label: { type: 'string' }
+              },
+              additionalProperties: false,
+              required: ['id', 'label']
+            }
+          },
+          additionalProperties: false,
+          required: ['item']
+        },
+        header: {}
+      }
+    })
+  })
+
+  test('should convert events payloads to tuples', () => {
+    const schema = eventsToJsonSchema(events)
+    expect(schema.properties?.change).toEqual({
+      type: 'array',
+      items: [{ type: 'string' }, { type: 'number' }],
+      minItems: 2,
+      maxItems: 2
+    })
+    expect(schema.properties?.close).toEqual({ type: 'array', minItems: 0, maxItems: 0 })
+
+    const ajv = new Ajv({ strictTuples: false })
+    const validate = ajv.compile(schema.properties!.change)
+    expect(validate(['value', 1])).toBe(true)
+    expect(validate([1, 'value'])).toBe(false)
+    expect(validate(['value'])).toBe(false)
+  })
+
+  test('should convert exposed members and skip functions', () => {
+    expect(exposedToJsonSchema(exposed)).toEqual({
+      type: 'object',
+      properties: {
+        count: { type: 'number', description: 'Current count' }
+      }
+    })
+  })
+
+  test('should bundle all schemas', () => {
+    const schema = componentToJsonSchema({ props: [], slots, events, exposed })
+    expect(Object.keys(schema.properties!)).toEqual(['props', 'slots', 'events', 'exposed'])
+    expect(schema.properties!.props).toEqual({ type: 'object', properties: {} })
+  })
+})
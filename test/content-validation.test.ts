@@ -0,0 +1,130 @@
+import { describe, test, expect, vi } from 'vitest'
+import { join } from 'path'
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { createHooks } from 'hookable'
+import { logger } from '@nuxt/kit'
+import { extractMdcUsages, useContentValidation, validateMdcUsages } from '../src/utils/content'
+
+const source = `# Hello
+
+::alert{type="wrong" :count="3" disabled class="x"}
+Default content
+
+#title
+The title
+::
+
+Inline :badge{label="new"} here
+
+::alert{:count="2"}
+::
+`
+
+// Output of `@nuxt/content` for the source above
+const body = {
+  type: 'minimark',
+  value: [
+    ['h1', { id: 'hello' }, 'Hello'],
+    ['alert', { ':count': '3', ':disabled': 'true', className: ['x'], disabled: true, type: 'wrong' }, ['p', {}, 'Default content'], ['template', { 'v-slot:title': '' }, ['p', {}, 'The title']]],
+    ['p', {}, 'Inline ', ['badge', { label: 'new' }], ' here'],
+    ['alert', { ':count': '2' }]
+  ]
+}
+
+const components = {
+  Alert: {
+    pascalName: 'Alert',
+    meta: {
+      type: 1,
+      props: [
+        {
+          name: 'type',
+          global: false,
+          description: '',
+          tags: [],
+          required: true,
+          type: '"info" | "warning"',
+          schema: { kind: 'enum', type: '"info" | "warning"', schema: ['"info"', '"warning"'] }
+        },
+        { name: 'count', global: false, description: '', tags: [], required: false, type: 'number | undefined', schema: 'number | undefined' }
+      ],
+      slots: [{ name: 'default', type: '{}', description: '', tags: [], schema: {} }],
+      events: [],
+      exposed: []
+    }
+  },
+  Badge: {
+    pascalName: 'Badge',
+    meta: {
+      type: 1,
+      props: [{ name: 'label', global: false, description: '', tags: [], required: true, type: 'string', schema: 'string' }],
+      slots: [],
+      events: [],
+      exposed: []
+    }
+  }
+} as any
+
+describe('content validation', () => {
+  test('extracts components usages from parsed Markdown', () => {
+    const usages = extractMdcUsages(body, source)
+
+    expect(usages.filter(usage => usage.tag !== 'p' && usage.tag !== 'h1')).toEqual([
+      { tag: 'alert', line: 3, props: { count: 3, disabled: true, type: 'wrong' }, slots: ['default', 'title'] },
+      { tag: 'badge', line: 10, props: { label: 'new' }, slots: [] },
+      { tag: 'alert', line: 12, props: { count: 2 }, slots: [] }
+    ])
+  })
+
+  test('reports invalid components usages', () => {
+    const issues = validateMdcUsages(extractMdcUsages(body, source), components)
+
+    expect(issues).toEqual([
+      { line: 3, component: 'Alert', message: 'Unknown property `disabled`' },
+      { line: 3, component: 'Alert', message: 'Expected one of "info", "warning" at `type`' },
+      { line: 3, component: 'Alert', message: 'Unknown slot `title`' },
+      { line: 12, component: 'Alert', message: 'Missing required property `type`' }
+    ])
+  })
+
+  test('validates files parsed by @nuxt/content and cached ones', async () => {
+    const rootDir = mkdtempSync(join(tmpdir(), 'nuxt-component-meta-content-'))
+    const cacheDir = join(rootDir, 'node_modules/.cache/nuxt-component-meta')
+    const databasePath = join(rootDir, '.data/content/contents.sqlite')
+    mkdirSync(join(rootDir, '.data/content'), { recursive: true })
+    mkdirSync(join(rootDir, 'content'), { recursive: true })
+    writeFileSync(databasePath, '')
+    writeFileSync(join(rootDir, 'content/index.md'), source)
+
+    const nuxt = Object.assign(createHooks(), { options: { rootDir, dev: false } }) as any
+    const validation = useContentValidation(nuxt, { mode: 'error', cacheDir })
+
+    await nuxt.callHook('content:file:afterParse', {
+      file: { path: join(rootDir, 'content/index.md'), body: source },
+      content: { body }
+    })
+    expect(() => validation.validate(components)).toThrowError(/content\/index\.md:3 <Alert> Unknown property `disabled`/)
+
+    // The @nuxt/content cache is left untouched
+    expect(existsSync(databasePath)).toBe(true)
+
+    // In development, issues are only reported
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {})
+    nuxt.options.dev = true
+    validation.validate(components)
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('content/index.md:12 <Alert> Missing required property `type`'))
+    warn.mockRestore()
+
+    // Files served from the @nuxt/content cache are validated from the usages cache
+    const restarted = Object.assign(createHooks(), { options: { rootDir, dev: false } }) as any
+    expect(() => useContentValidation(restarted, { mode: 'error', cacheDir }).validate(components)).toThrowError(/content\/index\.md:3 <Alert> Unknown property `disabled`/)
+
+    // Changed files are parsed again, so their cached usages are dropped
+    writeFileSync(join(rootDir, 'content/index.md'), '# Hello')
+    const changed = Object.assign(createHooks(), { options: { rootDir, dev: false } }) as any
+    expect(() => useContentValidation(changed, { mode: 'error', cacheDir }).validate(components)).not.toThrow()
+
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, test, expect } from 'vitest'
+import { join } from 'path'
+import { evaluateExpression } from '../src/parser/extend'
+import { getComponentMetaFromSource } from '../src/parser'
+import { propsToJsonSchema } from '../src/utils/schema'
+
+describe('default values', () => {
+  const filePath = join(__dirname, 'fixtures/extend/Component.vue')
+
+  const sfc = (script: string) => [
+    '<template><div /></template>',
+    '<script setup lang="ts">',
+    script,
+    '</script>'
+  ].join('\n')
+
+  test('should evaluate literals and factories', () => {
+    const code = sfc('defineProps<{ size?: string }>()')
+
+    expect(evaluateExpression(`{ size: 'md', list: ['a', 'b'] }`, code, filePath)).toEqual({ size: 'md', list: ['a', 'b'] })
+    expect(evaluateExpression(`() => ({ size: 'md' })`, code, filePath)).toEqual({ size: 'md' })
+    expect(evaluateExpression(`() => { return ['a'] }`, code, filePath)).toEqual(['a'])
+    expect(evaluateExpression('undefined', code, filePath)).toBeUndefined()
+  })
+
+  test('should resolve enum members and constants', () => {
+    const code = sfc(`
+      import { Size as ImportedSize, tags } from './constants'
+      enum Variant { Solid = 'solid', Outline = 'outline' }
+      enum Level { Low, High }
+      const DEFAULT_LABEL = 'Submit'
+    `)
+
+    expect(evaluateExpression('Variant.Outline', code, filePath)).toBe('outline')
+    expect(evaluateExpression('Level.High', code, filePath)).toBe(1)
+    expect(evaluateExpression('ImportedSize.Large', code, filePath)).toBe('lg')
+    expect(evaluateExpression('DEFAULT_LABEL', code, filePath)).toBe('Submit')
+    expect(evaluateExpression('() => [...tags]', code, filePath)).toEqual(['form', 'input'])
+  })
+
+  test('should throw for non-static defaults', () => {
+    const code = sfc('defineProps<{ date?: Date }>()')
+
+    expect(() => evaluateExpression('new Date()', code, filePath)).toThrow(/^Only static values can be evaluated, found `new Date\(\)`/)
+    expect(() => evaluateExpression('() => { const a = 1; return a }', code, filePath)).toThrow(/Only factories returning a value/)
+  })
+
+  test('should add evaluated defaults to props and JSON Schema', { timeout: 20000 }, () => {
+    const meta = getComponentMetaFromSource(sfc(`
+      enum Size { Small = 'sm', Large = 'lg' }
+      withDefaults(defineProps<{ size?: Size, options?: { label: string }, items?: string[], date?: Date, empty?: string }>(), {
+        size: Size.Large,
+        options: () => ({ label: 'Hello' }),
+        items: () => ['a', 'b'],
+        date: () => new Date(),
+        empty: undefined
+      })
+    `), {
+      rootDir: join(__dirname, './fixtures/basic'),
+      filename: 'app/components/Defaults.vue'
+    })
+    const props = Object.fromEntries(meta.props.map(prop => [prop.name, prop as typeof prop & { defaultValue?: unknown }]))
+
+    expect(props.size!.default).toBe('Size.Large')
+    expect(props.size!.defaultValue).toBe('lg')
+    expect(props.options!.defaultValue).toEqual({ label: 'Hello' })
+    expect(props.items!.defaultValue).toEqual(['a', 'b'])
+    expect(props.date!).not.toHaveProperty('defaultValue')
+    expect(props.date!).toHaveProperty('defaultRaw', 'new Date()')
+    expect(props.empty!).not.toHaveProperty('defaultValue')
+    expect(props.empty!).not.toHaveProperty('defaultRaw')
+
+    const jsonSchema = propsToJsonSchema(meta.props)
+    expect(jsonSchema.properties?.size.default).toBe('lg')
+    expect(jsonSchema.properties?.options.default).toEqual({ label: 'Hello' })
+    expect(jsonSchema.properties?.items.default).toEqual(['a', 'b'])
+    expect(jsonSchema.properties?.date).not.toHaveProperty('default')
+    expect(jsonSchema.properties?.date).not.toHaveProperty('defaultRaw')
+    expect(jsonSchema.properties?.empty).not.toHaveProperty('default')
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, test, expect, vi, afterEach, beforeEach } from 'vitest'
+import { join } from 'path'
+import { rmSync } from 'fs'
+import { useComponentMetaParser } from '../src/parser/meta-parser'
+import { metaPlugin } from '../src/utils/unplugin'
+
+const defaults = vi.hoisted(() => ({ fail: false }))
+
+vi.mock('../src/parser/defaults', async importOriginal => {
+  const original = await importOriginal<typeof import('../src/parser/defaults')>()
+  return {
+    ...original,
+    resolveDefaultValues: (...args: Parameters<typeof original.resolveDefaultValues>) => {
+      if (defaults.fail) {
+        throw new Error('Could not resolve defaults')
+      }
+      return original.resolveDefaultValues(...args)
+    }
+  }
+})
+
+describe('diagnostics', () => {
+  const rootDir = join(process.cwd(), 'playground')
+  const outputDir = join(process.cwd(), 'node_modules/.cache/nuxt-component-meta-test-diagnostics')
+
+  // Metas written by a previous run would be restored as up-to-date, skipping the failing phases
+  beforeEach(() => {
+    rmSync(outputDir, { recursive: true, force: true })
+  })
+
+  const createParser = (options: Record<string, any> = {}) => useComponentMetaParser({
+    rootDir,
+    outputDir,
+    componentDirs: [join(rootDir, 'app/components/global')],
+    components: [
+      {
+        pascalName: 'TestButton',
+        kebabName: 'test-button',
+        filePath: join(rootDir, 'app/components/global/TestButton.vue')
+      } as any
+    ],
+    metaFields: { type: true, props: true, slots: true, events: true, exposed: true },
+    overrides: {},
+    ...options
+  })
+
+  afterEach(() => {
+    defaults.fail = false
+  })
+
+  test('should record the phase of metas post-processing failures', { timeout: 20000 }, async () => {
+    defaults.fail = true
+    const parser = createParser()
+    await parser.init()
+    parser.fetchComponent('TestButton')
+
+    expect(parser.components.TestButton!.diagnostics).toMatchObject([{
+      message: 'Could not resolve defaults',
+      phase: 'defaults'
+    }])
+    parser.dispose()
+  })
+
+  test('should keep parsed metas when extendComponentMeta() cannot be evaluated', async () => {
+    const parser = createParser({
+      transformers: [
+        (component: any, code: string) => ({ component, code: code.replace('</script>', 'extendComponentMeta({ date: new Date() })\n</script>') })
+      ]
+    })
+    await parser.init()
+    parser.fetchComponent('TestButton')
+
+    const component = parser.components.TestButton as any
+    expect(component.diagnostics).toMatchObject([{ phase: 'extend', message: expect.stringContaining('new Date()') }])
+    expect(component.meta.props.map((prop: any) => prop.name)).toContain('size')
+    parser.dispose()
+  })
+
+  test('should fail the build on parsing errors with `failOnError`', async () => {
+    const parserOptions = {
+      failOnError: true,
+      transformers: [
+        () => { throw new Error('Transformer failed') }
+      ]
+    }
+    const parser = createParser(parserOptions)
+    await parser.init()
+
+    const plugin = metaPlugin.raw({ parser, parserOptions } as any, { framework: 'vite' }) as any
+    plugin.vite.configResolved({ build: { ssr: false }, env: { DEV: false, PROD: true } })
+
+    await expect(plugin.buildStart()).rejects.toThrowError('[nuxt-component-meta] Could not parse TestButton')
+
+    // Failures are only reported in development
+    plugin.vite.configResolved({ build: { ssr: false }, env: { DEV: true, PROD: false } })
+    await expect(plugin.buildStart()).resolves.toBeUndefined()
+    parser.dispose()
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, test, expect } from 'vitest'
+import { join } from 'path'
+import { extractExtendedComponentMeta, stripExtendComponentMeta } from '../src/parser/extend'
+
+describe('extendComponentMeta', () => {
+  const filePath = join(__dirname, 'fixtures/extend/Component.vue')
+
+  const sfc = (script: string) => [
+    '<template><div /></template>',
+    '<script setup lang="ts">',
+    script,
+    '</script>'
+  ].join('\n')
+
+  test('should extract static object literals with nested braces', () => {
+    const meta = extractExtendedComponentMeta(sfc(`
+      extendComponentMeta({
+        hello: 'world',
+        nested: { deep: { value: 1 } },
+        list: [true, null, -2]
+      })
+    `), filePath)
+
+    expect(meta).toEqual({
+      hello: 'world',
+      nested: { deep: { value: 1 } },
+      list: [true, null, -2]
+    })
+  })
+
+  test('should resolve local and imported constants and spreads', () => {
+    const meta = extractExtendedComponentMeta(sfc(`
+      import { tags, defaultCategory } from './constants'
+      const base = { category: defaultCategory } as const
+      extendComponentMeta({
+        ...base,
+        tags: [...tags, 'extra']
+      })
+    `), filePath)
+
+    expect(meta).toEqual({
+      category: 'Forms',
+      tags: ['form', 'input', 'extra']
+    })
+  })
+
+  test('should resolve constants imported through aliases', () => {
+    const code = sfc(`
+      import { sharedMeta } from '#shared/meta'
+      extendComponentMeta({ ...sharedMeta })
+    `)
+    const tsconfigPaths = {
+      baseUrl: join(__dirname, 'fixtures/extend/.nuxt'),
+      paths: { '#shared/*': ['../shared/*'] }
+    }
+
+    expect(extractExtendedComponentMeta(code, filePath, { tsconfigPaths })).toEqual({ category: 'Shared' })
+    expect(() => extractExtendedComponentMeta(code, filePath)).toThrow(/imported from relative or aliased modules/)
+  })
+
+  test('should return null when extendComponentMeta is not used', () => {
+    expect(extractExtendedComponentMeta(sfc('defineProps<{ a: string }>()'), filePath)).toBeNull()
+  })
+
+  test('should reject non-static expressions', () => {
+    expect(() => extractExtendedComponentMeta(sfc(`
+      extendComponentMeta({
+        date: new Date()
+      })
+    `), filePath)).toThrow(/extendComponentMeta\(\) argument cannot be evaluated: Only static values can be evaluated, found `new Date\(\)` in .*Component\.vue:5/)
+
+    expect(() => extractExtendedComponentMeta(sfc(`
+      let mutable = 'value'
+      extendComponentMeta({ mutable })
+    `), filePath)).toThrow(/Only `const` values can be referenced/)
+  })
+
+  test('should strip the macro from the component source', () => {
+    const code = sfc(`
+      extendComponentMeta({
+        category: 'Forms'
+      })
+      defineProps<{ a: string }>()
+    `)
+    const stripped = stripExtendComponentMeta(code, filePath)
+
+    expect(stripped).not.toContain('extendComponentMeta')
+    expect(stripped).toContain('defineProps<{ a: string }>()')
+    expect(stripped.split('\n').length).toEqual(code.split('\n').length)
+  })
+})
@@ -0,0 +1,7 @@
+import { useComponentPropsValidator } from '../../../../../../src/runtime/server/utils/useComponentPropsValidator'
+
+export default defineEventHandler(async (event) => {
+  const { validate } = useComponentPropsValidator(getRouterParam(event, 'component')!)
+
+  return validate(await readBody(event))
+})
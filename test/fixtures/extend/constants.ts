@@ -0,0 +1,10 @@
+export const tags = ['form', 'input']
+
+const category = 'Forms'
+
+export { category as defaultCategory }
+
+export enum Size {
+  Small = 'sm',
+  Large = 'lg'
+}
@@ -0,0 +1,3 @@
+export const sharedMeta = {
+  category: 'Shared'
+}
@@ -0,0 +1,10 @@
+import nuxtMetaModule from '../../../src/module'
+
+export default defineNuxtConfig({
+  modules: [
+    nuxtMetaModule
+  ],
+  componentMeta: {
+    runtimeSource: 'prerendered-json'
+  }
+})
@@ -0,0 +1,6 @@
+import { parentPort } from 'worker_threads'
+
+// Report every job as failed, without an error message
+parentPort.once('message', (jobs) => {
+  parentPort.postMessage(jobs.map(() => ({ duration: 0 })))
+})
@@ -0,0 +1,9 @@
+import { parentPort } from 'worker_threads'
+
+// Throw on the `fail` job, keep parsing the others until terminated
+parentPort.once('message', (jobs) => {
+  if (jobs.some(job => job.resolvedPath === 'fail')) {
+    throw new Error('Worker crashed')
+  }
+  setInterval(() => {}, 1000)
+})
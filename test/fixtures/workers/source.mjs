@@ -0,0 +1,4 @@
+import { createJiti } from 'jiti'
+
+// Run the worker entry from source, without building the module
+await createJiti(import.meta.url).import('../../../src/parser/worker.ts')
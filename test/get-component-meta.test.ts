@@ -1,7 +1,7 @@
 import { beforeAll, describe, expect, test } from "vitest";
-import { getComponentMeta } from "../src/parser";
+import { createComponentMetaExtractor, getComponentMeta, getComponentMetaFromSource } from "../src/parser";
 import { join } from "path";
-import { rmSync } from "fs";
+import { existsSync, readFileSync, rmSync } from "fs";
 
 describe("get-component-meta", () => {
   const rootDir = join(__dirname, "./fixtures/basic")
@@ -66,3 +66,62 @@ describe("get-component-meta", () => {
     expect((metaCached as unknown as Record<string, unknown>).cachedAt).toBeDefined();
   });
 });
+
+describe("create-component-meta-extractor", () => {
+  const rootDir = join(__dirname, "./fixtures/basic")
+
+  test("parse components matched by globs with a single checker", { timeout: 20000 }, () => {
+    const extractor = createComponentMetaExtractor({
+      rootDir,
+      components: ["app/components/global/*.vue", "app/components/NormalScript.vue"]
+    })
+
+    expect(Object.keys(extractor.components)).toEqual(["TestContent", "TestGlobalComponent", "NormalScript"])
+
+    const metas = extractor.getAll()
+    expect(Object.keys(metas)).toEqual(["TestContent", "TestGlobalComponent", "NormalScript"])
+    expect(metas.NormalScript!.props.length).toEqual(4)
+    expect(extractor.get("TestGlobalComponent").props.map(p => p.name)).toContain("hello")
+
+    extractor.dispose()
+  });
+
+  test("update a component source in memory", { timeout: 20000 }, () => {
+    const extractor = createComponentMetaExtractor({
+      rootDir,
+      components: "app/components/NormalScript.vue"
+    })
+
+    const source = readFileSync(join(rootDir, "app/components/NormalScript.vue"), "utf-8")
+    const meta = extractor.update("NormalScript", source.replace("alt:", "title:"))
+
+    const propNames = meta.props.map(p => p.name)
+    expect(propNames).toContain("title")
+    expect(propNames).not.toContain("alt")
+
+    // The file on disk is left untouched
+    expect(readFileSync(join(rootDir, "app/components/NormalScript.vue"), "utf-8")).toEqual(source)
+
+    extractor.dispose()
+  });
+});
+
+describe("get-component-meta-from-source", () => {
+  const rootDir = join(__dirname, "./fixtures/basic")
+
+  test("parse a virtual component without writing it to disk", { timeout: 20000 }, () => {
+    const meta = getComponentMetaFromSource([
+      '<script setup lang="ts">',
+      'defineProps<{ title: string, count?: number }>()',
+      '</script>',
+      '<template><div><slot name="header" /></div></template>'
+    ].join("\n"), {
+      rootDir,
+      filename: "app/components/Virtual.vue"
+    })
+
+    expect(meta.props.map(p => p.name)).toEqual(["title", "count"])
+    expect(meta.slots.map(s => s.name)).toEqual(["header"])
+    expect(existsSync(join(rootDir, "app/components/Virtual.vue"))).toBe(false)
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, test, expect, beforeAll, afterAll, vi } from 'vitest'
+import { join } from 'path'
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { logger } from '@nuxt/kit'
+import { useComponentMetaParser } from '../src/parser/meta-parser'
+import { createParseCache } from '../src/parser/cache'
+import { metaPlugin } from '../src/utils/unplugin'
+
+describe('useComponentMetaParser', () => {
+  const rootDir = join(process.cwd(), 'playground')
+  const cacheDir = join(process.cwd(), 'node_modules/.cache/nuxt-component-meta-test/cache')
+
+  beforeAll(() => {
+    rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  const createParser = (options: Record<string, any> = {}) => useComponentMetaParser({
+    rootDir,
+    outputDir: join(process.cwd(), 'node_modules/.cache/nuxt-component-meta-test'),
+    componentDirs: [join(rootDir, 'app/components/global')],
+    components: [
+      {
+        pascalName: 'TestButton',
+        kebabName: 'test-button',
+        filePath: join(rootDir, 'app/components/global/TestButton.vue')
+      } as any
+    ],
+    metaFields: { type: true, props: true, slots: true, events: true, exposed: true },
+    overrides: {},
+    ...options
+  })
+
+  test('should record the type files a component depends on', { timeout: 20000 }, async () => {
+    const parser = createParser()
+    await parser.init()
+
+    const component = parser.fetchComponent('TestButton') as any
+
+    expect(component.meta.dependencies).toContain('shared/types/test-button.ts')
+    expect(component.meta.dependencies).toContain('shared/types/shared-props.ts')
+    expect(component.meta.dependenciesHash).toBeDefined()
+
+    const dependents = parser.getDependentComponents(join(rootDir, 'shared/types/shared-props.ts'))
+    expect(dependents.map((c: any) => c.pascalName)).toEqual(['TestButton'])
+
+    parser.dispose()
+  })
+
+  test('should keep build-only fields out of the runtime output', { timeout: 20000 }, async () => {
+    const parser = createParser()
+    await parser.init()
+    parser.fetchComponent('TestButton')
+
+    const output = JSON.parse(parser.getStringifiedComponents()).TestButton
+    expect(output.meta.props.length).toBeGreaterThan(0)
+    expect(output.meta).not.toHaveProperty('dependencies')
+    expect(output.meta).not.toHaveProperty('dependenciesHash')
+    parser.dispose()
+  })
+
+  test('should reuse metas from the on-disk cache', { timeout: 20000 }, async () => {
+    const parser = createParser({ cache: true, cacheDir })
+    await parser.init()
+    const parsed = parser.fetchComponent('TestButton') as any
+    expect(parser.checker).toBeDefined()
+    parser.dispose()
+
+    const cachedParser = createParser({ cache: true, cacheDir })
+    await cachedParser.init()
+    cachedParser.fetchComponent('TestButton')
+    const cached = cachedParser.components.TestButton as any
+
+    // Cache hit does not need a checker
+    expect(cachedParser.checker).toBeUndefined()
+    expect(cached.meta).toEqual(JSON.parse(JSON.stringify(parsed.meta)))
+    cachedParser.dispose()
+  })
+
+  test('should invalidate the on-disk cache when the lockfile changes', () => {
+    const projectDir = mkdtempSync(join(tmpdir(), 'nuxt-component-meta-cache-'))
+    const options = { cacheDir: join(projectDir, 'cache'), rootDir: join(projectDir, 'app'), key: {} }
+    writeFileSync(join(projectDir, 'pnpm-lock.yaml'), 'lockfileVersion: 9.0')
+
+    createParseCache(options).set('components/Test.vue', 'hash', { props: [] })
+    expect(createParseCache(options).get('components/Test.vue', 'hash')).toEqual({ props: [] })
+
+    // Types resolved from upgraded packages may have changed
+    writeFileSync(join(projectDir, 'pnpm-lock.yaml'), 'lockfileVersion: 9.1')
+    expect(createParseCache(options).get('components/Test.vue', 'hash')).toBeUndefined()
+
+    rmSync(projectDir, { recursive: true, force: true })
+  })
+
+  test('should record diagnostics for components that could not be parsed', async () => {
+    const parser = createParser({
+      transformers: [
+        () => { throw new Error('Transformer failed') }
+      ]
+    })
+    await parser.init()
+    parser.fetchComponent('TestButton')
+
+    expect(parser.components.TestButton!.diagnostics).toMatchObject([{
+      message: 'Transformer failed',
+      phase: 'transform',
+      file: 'app/components/global/TestButton.vue'
+    }])
+    expect(parser.getFailedComponents().map(c => c.pascalName)).toEqual(['TestButton'])
+    parser.dispose()
+  })
+
+  test('should apply matching override rules before exact-name overrides', { timeout: 20000 }, async () => {
+    const parser = createParser({
+      overrideRules: [
+        { match: 'components/global/**', props: { appearance: false } },
+        { match: /^Test/, props: { size: { description: 'From rule' } } },
+        { match: () => false, props: { size: { description: 'Not applied' } } }
+      ],
+      overrides: {
+        TestButton: { props: { size: { required: false } } }
+      }
+    })
+    await parser.init()
+    const component = parser.fetchComponent('TestButton') as any
+
+    expect(component.meta.props.map((prop: any) => prop.name)).toEqual(['size'])
+    expect(component.meta.props[0]).toMatchObject({ name: 'size', description: 'From rule', required: false })
+    parser.dispose()
+  })
+
+  test('should only warn about unknown entries of exact-name overrides', { timeout: 20000 }, async () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {})
+    const parser = createParser({
+      components: ['TestButton', 'TestGlobalComponent'].map(name => ({
+        pascalName: name,
+        kebabName: name,
+        filePath: join(rootDir, `app/components/global/${name}.vue`)
+      })),
+      overrideRules: [
+        { match: 'components/global/**', props: { size: { description: 'From rule' } } }
+      ],
+      overrides: {
+        TestGlobalComponent: { props: { missing: { description: 'Not declared' } } }
+      }
+    })
+    await parser.init()
+    const button = parser.fetchComponent('TestButton') as any
+    const global = parser.fetchComponent('TestGlobalComponent') as any
+
+    expect(button.meta.props.find((prop: any) => prop.name === 'size')).toMatchObject({ description: 'From rule' })
+    expect(global.meta.props.map((prop: any) => prop.name)).not.toContain('size')
+    expect(warn.mock.calls.map(([message]) => message)).toEqual([
+      'Override of unknown props `missing` for TestGlobalComponent ignored, declare its `type` to add it.'
+    ])
+    warn.mockRestore()
+    parser.dispose()
+  })
+
+  test('should write one chunk per component and an index', async () => {
+    const outputDir = join(process.cwd(), 'node_modules/.cache/nuxt-component-meta-test/chunks')
+    rmSync(outputDir, { recursive: true, force: true })
+
+    const meta = { type: 1, props: [], slots: [], events: [], exposed: [] }
+    const parser = createParser({
+      outputDir,
+      components: [],
+      metaSources: {
+        UButton: { pascalName: 'UButton', meta },
+        UCard: { pascalName: 'UCard', meta }
+      }
+    })
+    await parser.init()
+    await parser.updateOutput()
+
+    const index = readFileSync(join(outputDir, 'component-meta/index.mjs'), 'utf-8')
+    expect(index).toContain(`"UButton": () => import('./chunks/UButton.mjs')`)
+    const chunk = await import(join(outputDir, 'component-meta/chunks/UButton.mjs'))
+    expect(chunk.default).toEqual({ pascalName: 'UButton', meta })
+
+    // Chunks of removed components are deleted
+    Reflect.deleteProperty(parser.components, 'UCard')
+    await parser.updateOutput()
+    expect(readdirSync(join(outputDir, 'component-meta/chunks'))).toEqual(['UButton.mjs'])
+    expect(readFileSync(join(outputDir, 'component-meta/index.mjs'), 'utf-8')).not.toContain('UCard')
+    parser.dispose()
+  })
+})
+
+describe('dependency invalidation', () => {
+  // Within the repository so `vue` types resolve, and outside of `node_modules` so components are not assumed unchanged
+  const tmpDir = join(process.cwd(), 'test/fixtures/.tmp')
+  let projectDir: string
+
+  const writeTypes = (propName: string) => writeFileSync(
+    join(projectDir, 'types.ts'),
+    `export interface CardProps { ${propName}: string }\n`
+  )
+
+  const createParser = (options: Record<string, any> = {}) => useComponentMetaParser({
+    rootDir: projectDir,
+    outputDir: join(projectDir, '.nuxt'),
+    componentDirs: [join(projectDir, 'components')],
+    components: [{ pascalName: 'Card', kebabName: 'card', filePath: join(projectDir, 'components/Card.vue') } as any],
+    metaFields: { type: true, props: true, slots: true, events: true, exposed: true },
+    overrides: {},
+    ...options
+  })
+
+  const propNames = (parser: ReturnType<typeof createParser>) => (parser.components.Card as any).meta.props.map((prop: any) => prop.name)
+
+  beforeAll(() => {
+    mkdirSync(tmpDir, { recursive: true })
+    projectDir = mkdtempSync(join(tmpDir, 'deps-'))
+    mkdirSync(join(projectDir, 'components'))
+    writeFileSync(join(projectDir, 'tsconfig.json'), '{ "compilerOptions": { "strict": true } }')
+    writeFileSync(join(projectDir, 'components/Card.vue'), [
+      '<template><div /></template>',
+      '<script setup lang="ts">',
+      "import type { CardProps } from '../types'",
+      'defineProps<CardProps>()',
+      '</script>'
+    ].join('\n'))
+  })
+
+  afterAll(() => {
+    rmSync(projectDir, { recursive: true, force: true })
+  })
+
+  test('should parse again on cold start when a dependency changed', { timeout: 60000 }, async () => {
+    const cacheDir = join(projectDir, 'cache')
+    writeTypes('title')
+    const parser = createParser({ cache: true, cacheDir })
+    await parser.init()
+    parser.fetchComponent('Card')
+    expect(propNames(parser)).toEqual(['title'])
+    expect((parser.components.Card as any).meta.dependencies).toEqual(['types.ts'])
+    parser.dispose()
+
+    // The cached entry is keyed on the unchanged component source, its `dependenciesHash` does not match anymore
+    writeTypes('heading')
+    const restarted = createParser({ cache: true, cacheDir })
+    await restarted.init()
+    restarted.fetchComponent('Card')
+    expect(restarted.checker).toBeDefined()
+    expect(propNames(restarted)).toEqual(['heading'])
+    restarted.dispose()
+  })
+
+  test('should parse dependent components again on HMR', { timeout: 60000 }, async () => {
+    writeTypes('title')
+    const parser = createParser()
+    await parser.init()
+    parser.fetchComponent('Card')
+    expect(propNames(parser)).toEqual(['title'])
+
+    const plugin = metaPlugin.raw({ parser, parserOptions: {} } as any, { framework: 'vite' }) as any
+    plugin.vite.configResolved({ build: { ssr: false }, env: { DEV: true, PROD: false } })
+
+    writeTypes('subtitle')
+    await plugin.vite.handleHotUpdate({ file: join(projectDir, 'types.ts') })
+    expect(propNames(parser)).toEqual(['subtitle'])
+    parser.dispose()
+  })
+})
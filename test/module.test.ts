@@ -81,4 +81,63 @@ describe('fixtures:basic', async () => {
     const component = await $fetch('/api/component-meta/TestComponent')
     expect(component.meta).toMatchObject({ hello: 'world', foo: 'bar' })
   })
+
+  test('Single component props JSON Schema', async () => {
+    const schema = await $fetch('/api/component-meta/test-global-component/schema.json')
+
+    expect(schema).toMatchObject({
+      type: 'object',
+      properties: {
+        hello: { type: 'string' }
+      }
+    })
+  })
+
+  test('All components props JSON Schemas', async () => {
+    const schemas = await $fetch('/api/component-meta/schema.json')
+    const components = await $fetch('/api/component-meta')
+
+    expect(schemas.TestGlobalComponent).toMatchObject({
+      type: 'object',
+      properties: {
+        hello: { type: 'string' }
+      }
+    })
+    expect(Object.keys(schemas)).toEqual(Object.keys(components))
+  })
+
+  test('Validate props in Nitro handlers', async () => {
+    const valid = await $fetch('/api/validate-props/TestTypedComponent', {
+      method: 'POST',
+      body: { stringProp: 'hello', arrayProp: ['a'] }
+    })
+    expect(valid).toEqual({ valid: true, errors: [] })
+
+    const invalid: any = await $fetch('/api/validate-props/TestTypedComponent', {
+      method: 'POST',
+      body: { numberProp: 'one', arrayProp: ['a', 2] }
+    })
+    expect(invalid.valid).toBe(false)
+    expect(invalid.errors).toMatchObject([
+      { path: 'stringProp' },
+      { path: 'numberProp', expected: ['number'] },
+      { path: 'arrayProp[1]', expected: ['string'] }
+    ])
+  })
+
+  test('Query components', async () => {
+    const components = await $fetch('/api/component-meta', { query: { prop: 'hello', global: true } })
+
+    expect(Object.keys(components)).toEqual(['TestGlobalComponent'])
+  })
+
+  test('Project components fields', async () => {
+    const components = await $fetch('/api/component-meta', { query: { fields: 'props.name,slots', schema: false } })
+    const component = await $fetch('/api/component-meta/TestGlobalComponent', { query: { fields: 'props.name' } })
+
+    expect(Object.keys(components.TestGlobalComponent.meta)).toEqual(['props', 'slots'])
+    expect(components.TestGlobalComponent.meta.props).toContainEqual({ name: 'hello' })
+    expect(components.TestGlobalComponent.meta.slots.every((slot: Record<string, unknown>) => !('schema' in slot))).toBeTruthy()
+    expect(component.meta).toEqual({ props: components.TestGlobalComponent.meta.props })
+  })
 })
@@ -0,0 +1,74 @@
+import { describe, test, expect, vi } from 'vitest'
+import { logger } from '@nuxt/kit'
+import type { ComponentMeta } from 'vue-component-meta'
+import { refineMeta } from '../src/parser/utils'
+
+const createMeta = () => ({
+  type: 1,
+  props: [
+    { name: 'color', global: false, description: 'The color', tags: [{ name: 'since', text: 'v1' }], required: false, type: 'string', schema: 'string' },
+    { name: 'ui', global: false, description: '', tags: [], required: false, type: 'object', schema: { kind: 'object', type: 'object', schema: {} } }
+  ],
+  slots: [
+    { name: 'default', type: '{}', description: '', schema: { kind: 'object', type: '{}', schema: {} } }
+  ],
+  events: [],
+  exposed: []
+}) as unknown as ComponentMeta
+
+describe('overrides', () => {
+  test('should deep-merge overrides into parsed entries', () => {
+    const meta = refineMeta(createMeta(), undefined, {
+      props: {
+        color: { description: 'Overridden color' }
+      }
+    })
+
+    expect(meta.props.find(prop => prop.name === 'color')).toEqual({
+      name: 'color',
+      global: false,
+      description: 'Overridden color',
+      tags: [{ name: 'since', text: 'v1' }],
+      required: false,
+      type: 'string',
+      schema: 'string'
+    })
+  })
+
+  test('should remove entries overridden with false', () => {
+    const meta = refineMeta(createMeta(), undefined, {
+      props: { ui: false },
+      slots: { default: false }
+    })
+
+    expect(meta.props.map(prop => prop.name)).toEqual(['color'])
+    expect(meta.slots).toEqual([])
+  })
+
+  test('should silently ignore removals of missing entries', () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {})
+    const meta = refineMeta(createMeta(), undefined, {
+      props: { size: false }
+    })
+
+    expect(meta.props.map(prop => prop.name)).toEqual(['color', 'ui'])
+    expect(warn).not.toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  test('should add entries declaring a type and ignore unknown ones', () => {
+    const meta = refineMeta(createMeta(), undefined, {
+      props: {
+        size: { type: 'string', description: 'Missed by the checker' },
+        unknown: { description: 'Ignored' }
+      },
+      events: {
+        change: { type: '[value: string]' }
+      }
+    })
+
+    expect(meta.props.map(prop => prop.name)).toEqual(['color', 'ui', 'size'])
+    expect(meta.props.find(prop => prop.name === 'size')).toEqual({ name: 'size', type: 'string', description: 'Missed by the checker' })
+    expect(meta.events).toEqual([{ name: 'change', type: '[value: string]' }])
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'vitest'
+import { parseComponentMetaProjection, projectComponentMeta, projectComponentsMeta } from '../src/runtime/utils/projection'
+
+const component = {
+  pascalName: 'UButton',
+  filePath: 'app/components/ui/UButton.vue',
+  meta: {
+    mode: 'normal',
+    props: [
+      { name: 'color', type: '"primary" | "neutral" | undefined', description: 'Button color', schema: { kind: 'enum', type: '"primary" | "neutral" | undefined', schema: ['undefined', '"primary"', '"neutral"'] } }
+    ],
+    slots: [{ name: 'default', type: '{}', description: '', schema: { kind: 'object', type: '{}', schema: {} } }],
+    events: [{ name: 'click', type: '[event: MouseEvent]', description: '', schema: ['MouseEvent'] }],
+    exposed: []
+  }
+} as any
+
+describe('projectComponentMeta', () => {
+  test('keeps the projected meta fields', () => {
+    const projected = projectComponentMeta(component, { fields: ['props', 'slots'] })
+
+    expect(projected.pascalName).toBe('UButton')
+    expect(Object.keys(projected.meta)).toEqual(['props', 'slots'])
+    expect(projected.meta.props).toEqual(component.meta.props)
+  })
+
+  test('keeps the projected members fields', () => {
+    const projected = projectComponentMeta(component, { fields: ['props.name', 'props.type', 'events'] })
+
+    expect(projected.meta).toEqual({
+      props: [{ name: 'color', type: '"primary" | "neutral" | undefined' }],
+      events: component.meta.events
+    })
+  })
+
+  test('drops members schemas', () => {
+    const projected = projectComponentMeta(component, { schema: false })
+
+    expect(projected.meta.mode).toBe('normal')
+    expect(projected.meta.props[0]).toEqual({ name: 'color', type: '"primary" | "neutral" | undefined', description: 'Button color' })
+    expect(projected.meta.slots[0]).not.toHaveProperty('schema')
+    expect(projected.meta.events[0]).not.toHaveProperty('schema')
+    expect(component.meta.props[0]).toHaveProperty('schema')
+
+    expect(projectComponentMeta(component, { fields: ['props.name', 'props.schema'], schema: false }).meta.props).toEqual([{ name: 'color' }])
+  })
+
+  test('projects every component', () => {
+    expect(projectComponentsMeta({ UButton: component }, { fields: ['slots.name'] })).toEqual({
+      UButton: { ...component, meta: { slots: [{ name: 'default' }] } }
+    })
+    expect(projectComponentsMeta({ UButton: component })).toEqual({ UButton: component })
+  })
+
+  test('parses URL query params', () => {
+    expect(parseComponentMetaProjection({ fields: 'props.name,props.type', schema: 'false' })).toEqual({
+      fields: ['props.name', 'props.type'],
+      schema: false
+    })
+    expect(parseComponentMetaProjection({ fields: ['props', 'slots'] })).toEqual({ fields: ['props', 'slots'] })
+    expect(parseComponentMetaProjection({ prop: 'color' })).toEqual({})
+  })
+})
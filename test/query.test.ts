@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'vitest'
+import { parseComponentMetaQuery, queryComponentMeta, stringifyComponentMetaQuery } from '../src/runtime/utils/query'
+
+const components = {
+  UButton: {
+    pascalName: 'UButton',
+    kebabName: 'u-button',
+    filePath: 'app/components/ui/UButton.vue',
+    global: true,
+    meta: {
+      props: [
+        { name: 'color', type: '"primary" | "neutral" | undefined', description: 'Button color' },
+        { name: 'disabled', type: 'boolean | undefined', description: '' }
+      ],
+      slots: [{ name: 'default', description: '' }],
+      events: [{ name: 'click', description: '' }],
+      exposed: [{ name: 'focus', description: 'Focus the button' }]
+    }
+  },
+  ProseAlert: {
+    pascalName: 'ProseAlert',
+    kebabName: 'prose-alert',
+    filePath: 'app/components/content/ProseAlert.vue',
+    global: false,
+    meta: {
+      props: [{ name: 'color', type: 'string', description: 'Alert color' }],
+      slots: [{ name: 'default', description: 'Alert message' }, { name: 'title', description: '' }],
+      events: [],
+      exposed: []
+    }
+  }
+} as any
+
+const names = (query: Parameters<typeof queryComponentMeta>[1]) => Object.keys(queryComponentMeta(components, query))
+
+describe('queryComponentMeta', () => {
+  test('filters by members names', () => {
+    expect(names({ prop: 'color' })).toEqual(['UButton', 'ProseAlert'])
+    expect(names({ prop: ['color', 'disabled'] })).toEqual(['UButton'])
+    expect(names({ slot: 'title' })).toEqual(['ProseAlert'])
+    expect(names({ event: 'click' })).toEqual(['UButton'])
+    expect(names({ exposed: 'focus' })).toEqual(['UButton'])
+  })
+
+  test('filters by prop type', () => {
+    expect(names({ type: 'boolean' })).toEqual(['UButton'])
+    expect(names({ prop: 'color', type: 'string' })).toEqual(['ProseAlert'])
+  })
+
+  test('filters by directory, prefix and global flag', () => {
+    expect(names({ dir: 'components/content' })).toEqual(['ProseAlert'])
+    expect(names({ dir: 'content/' })).toEqual(['ProseAlert'])
+    expect(names({ prefix: 'prose' })).toEqual(['ProseAlert'])
+    expect(names({ global: true })).toEqual(['UButton'])
+  })
+
+  test('searches names and descriptions', () => {
+    expect(names({ search: 'focus' })).toEqual(['UButton'])
+    expect(names({ search: 'alert message' })).toEqual(['ProseAlert'])
+    expect(names({ search: 'color', global: false })).toEqual(['ProseAlert'])
+  })
+
+  test('parses URL query params', () => {
+    expect(parseComponentMetaQuery({ prop: 'color,disabled', slot: ['default', 'title'], global: 'false', search: 'alert' })).toEqual({
+      prop: ['color', 'disabled'],
+      slot: ['default', 'title'],
+      global: false,
+      search: 'alert'
+    })
+  })
+
+  test('stringifies queries as URL query params', () => {
+    const query = { prop: ['color', 'disabled'], slot: 'title', global: false, search: 'alert' }
+    expect(stringifyComponentMetaQuery(query)).toEqual({ prop: 'color,disabled', slot: 'title', global: 'false', search: 'alert' })
+    expect(parseComponentMetaQuery(stringifyComponentMetaQuery(query))).toEqual({ ...query, slot: ['title'] })
+  })
+})
@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'url'
+import { test, describe, expect } from 'vitest'
+import { setup, $fetch } from '@nuxt/test-utils'
+
+describe('runtimeSource: bundle', async () => {
+  await setup({
+    rootDir: fileURLToPath(new URL('./fixtures/runtime-source', import.meta.url)),
+    server: true,
+    nuxtConfig: {
+      componentMeta: {
+        runtimeSource: 'bundle'
+      }
+    }
+  })
+
+  test('useComponentMeta imports the bundled metas', async () => {
+    const html = await $fetch<string>('/')
+    expect(html).toMatch(/<div id="props">\s*label\s*<\/div>/)
+  })
+})
@@ -0,0 +1,26 @@
+import { fileURLToPath } from 'url'
+import { test, describe, expect } from 'vitest'
+import { setup, $fetch } from '@nuxt/test-utils'
+
+describe('runtimeSource: prerendered-json', async () => {
+  await setup({
+    rootDir: fileURLToPath(new URL('./fixtures/runtime-source', import.meta.url)),
+    server: true
+  })
+
+  test('emits metas as JSON files', async () => {
+    const components = await $fetch<Record<string, any>>('/component-meta/index.json')
+    expect(components.TestLabel.meta.props).toMatchObject([{ name: 'label' }])
+
+    const component = await $fetch<Record<string, any>>('/component-meta/TestLabel.json')
+    expect(component).toEqual(components.TestLabel)
+
+    const schema = await $fetch<Record<string, any>>('/component-meta/TestLabel.schema.json')
+    expect(schema).toMatchObject({ properties: { label: { type: 'string' } }, required: ['label'] })
+  })
+
+  test('useComponentMeta reads the JSON files', async () => {
+    const html = await $fetch<string>('/')
+    expect(html).toMatch(/<div id="props">\s*label\s*<\/div>/)
+  })
+})
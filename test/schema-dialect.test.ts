@@ -0,0 +1,159 @@
+import { describe, test, expect } from 'vitest'
+import Ajv from 'ajv'
+import Ajv2020 from 'ajv/dist/2020'
+import { componentsToOpenApiSchemas, eventsToJsonSchema, propsToJsonSchema } from '../src/utils/schema'
+import { applyDialect } from '../src/utils/dialect'
+
+const linkSchema = {
+  kind: 'object',
+  type: 'Link',
+  schema: {
+    label: { name: 'label', global: false, description: '', tags: [], required: true, type: 'string', schema: 'string' }
+  }
+}
+
+const props = [
+  { name: 'label', global: false, description: '', tags: [], required: false, type: 'string | null | undefined', schema: 'string | null | undefined' },
+  { name: 'value', global: false, description: '', tags: [], required: false, type: 'string | number | undefined', schema: 'string | number | undefined' },
+  { name: 'link', global: false, description: 'Main link', tags: [], required: true, type: 'Link', schema: linkSchema }
+] as any
+
+const events = [
+  {
+    name: 'change',
+    description: '',
+    tags: [],
+    type: '[value: string, index: number]',
+    signature: '(event: "change", value: string, index: number): void',
+    schema: ['string', 'number']
+  }
+] as any
+
+describe('JSON Schema dialects', () => {
+  test('keeps the un-versioned output by default', () => {
+    const schema = propsToJsonSchema(props, { refs: true })
+
+    expect(schema.$schema).toBeUndefined()
+    expect(schema.$defs!.Link).toBeDefined()
+  })
+
+  test('draft-07 uses definitions', () => {
+    const schema = propsToJsonSchema(props, { refs: true, dialect: 'draft-07' })
+
+    expect(schema.$schema).toBe('http://json-schema.org/draft-07/schema#')
+    expect(schema.$defs).toBeUndefined()
+    expect(schema.definitions!.Link).toBeDefined()
+    expect(schema.properties!.link.$ref).toBe('#/definitions/Link')
+  })
+
+  test('2020-12 uses prefixItems for tuples', () => {
+    const schema = eventsToJsonSchema(events, { dialect: '2020-12' })
+
+    expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema')
+    expect(schema.properties!.change).toEqual({
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      minItems: 2,
+      maxItems: 2
+    })
+
+    const validate = new Ajv2020().compile(schema.properties!.change)
+    expect(validate(['a', 1])).toBe(true)
+    expect(validate([1, 'a'])).toBe(false)
+  })
+
+  test('openapi-3.0 uses nullable and no type arrays', () => {
+    const schema = propsToJsonSchema(props, { refs: true, dialect: 'openapi-3.0' })
+
+    expect(schema.$schema).toBeUndefined()
+    expect(schema.$defs).toBeUndefined()
+    expect(schema.properties!.label).toEqual({ type: 'string', nullable: true })
+    expect(schema.properties!.value).toEqual({ anyOf: [{ type: 'string' }, { type: 'number' }] })
+    // Named types are inlined in standalone OpenAPI schemas
+    expect(schema.properties!.link).toMatchObject({ type: 'object', description: 'Main link' })
+  })
+
+  test('openapi-3.0 declares a type next to nullable', () => {
+    const toOpenApi30 = (schema: any) => applyDialect(schema, 'openapi-3.0')
+
+    expect(toOpenApi30({ type: 'null' })).toEqual({ type: 'object', nullable: true, enum: [null] })
+    expect(toOpenApi30({ anyOf: [{ type: 'object', properties: { a: { type: 'string' } } }, { type: 'null' }] })).toEqual({
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      nullable: true
+    })
+    expect(toOpenApi30({ type: ['string', 'number', 'null'] })).toEqual({
+      anyOf: [{ type: 'string', nullable: true }, { type: 'number', nullable: true }]
+    })
+    expect(toOpenApi30({ anyOf: [{ $ref: '#/$defs/Link' }, { type: 'null' }] })).toEqual({
+      anyOf: [{ $ref: '#/components/schemas/Link' }, { type: 'object', nullable: true, enum: [null] }]
+    })
+    expect(toOpenApi30({ enum: ['a', 'b', null] })).toEqual({ type: 'string', enum: ['a', 'b', null], nullable: true })
+    expect(toOpenApi30({ anyOf: [{ type: 'string', enum: ['a'] }, { type: 'null' }] })).toEqual({ type: 'string', enum: ['a', null], nullable: true })
+    expect(toOpenApi30({ enum: ['a', 1, null] })).toEqual({
+      anyOf: [{ type: 'string', nullable: true, enum: ['a', null] }, { type: 'number', nullable: true, enum: [1, null] }]
+    })
+
+    // `nullable` is only supported next to `type`
+    const ajv = new Ajv()
+    const validate = ajv.compile(toOpenApi30({ anyOf: [{ enum: ['a', 'b'] }, { type: 'null' }] }))
+    expect(validate('a')).toBe(true)
+    expect(validate(null)).toBe(true)
+    expect(validate('c')).toBe(false)
+    expect(ajv.compile(toOpenApi30({ type: 'null' }))(null)).toBe(true)
+  })
+
+  test('openapi-3.0 uses boolean exclusive bounds', () => {
+    const toOpenApi30 = (schema: any) => applyDialect(schema, 'openapi-3.0')
+
+    expect(toOpenApi30({ type: 'number', exclusiveMinimum: 0 })).toEqual({ type: 'number', minimum: 0, exclusiveMinimum: true })
+    expect(toOpenApi30({ type: 'number', exclusiveMaximum: 10, maximum: 20 })).toEqual({ type: 'number', maximum: 10, exclusiveMaximum: true })
+    expect(toOpenApi30({ type: 'number', exclusiveMinimum: 0, minimum: 1 })).toEqual({ type: 'number', minimum: 1 })
+
+    const jsonSchema = propsToJsonSchema([
+      { name: 'count', global: false, description: '', tags: [{ name: 'exclusiveMinimum', text: '0' }], required: true, type: 'number', schema: 'number' }
+    ] as any, { dialect: 'openapi-3.0' })
+    expect(jsonSchema.properties!.count).toEqual({ type: 'number', minimum: 0, exclusiveMinimum: true })
+  })
+
+  test('openapi-3.0 keeps non-standard keywords as extensions', () => {
+    const jsonSchema = propsToJsonSchema([
+      { name: 'count', global: false, description: '', tags: [{ name: 'internal', text: '' }], required: true, type: 'number', schema: 'number' }
+    ] as any, {
+      dialect: 'openapi-3.0',
+      tagMappers: {
+        internal: (schema) => {
+          schema.internal = true
+          schema['x-since'] = 'v1'
+        }
+      }
+    })
+
+    expect(jsonSchema.properties!.count).toEqual({ type: 'number', 'x-internal': true, 'x-since': 'v1' })
+    expect(applyDialect({ type: 'object', properties: { internal: { type: 'string', $comment: 'Internal' } } }, 'openapi-3.0')).toEqual({
+      type: 'object',
+      properties: { internal: { type: 'string', 'x-$comment': 'Internal' } }
+    })
+  })
+
+  test('openapi-3.0 flattens tuples', () => {
+    const schema = eventsToJsonSchema(events, { dialect: 'openapi-3.0' })
+
+    expect(schema.properties!.change.items).toEqual({ anyOf: [{ type: 'string' }, { type: 'number' }] })
+  })
+
+  test('produces OpenAPI components schemas', () => {
+    const schemas = componentsToOpenApiSchemas({ UButton: { props } }, { dialect: 'openapi-3.0' })
+
+    expect(Object.keys(schemas)).toEqual(['Link', 'UButtonProps'])
+    expect(schemas.UButtonProps!.properties!.link).toEqual({
+      description: 'Main link',
+      allOf: [{ $ref: '#/components/schemas/Link' }]
+    })
+    expect(schemas.UButtonProps!.properties!.label).toEqual({ type: 'string', nullable: true })
+
+    const schemas31 = componentsToOpenApiSchemas({ UButton: { props } })
+    expect(schemas31.UButtonProps!.properties!.link).toEqual({ description: 'Main link', $ref: '#/components/schemas/Link' })
+    expect(schemas31.UButtonProps!.properties!.label).toEqual({ type: ['string', 'null'] })
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, test, expect } from 'vitest'
+import Ajv from 'ajv'
+import { componentsToJsonSchema, propsToJsonSchema } from '../src/utils/schema'
+
+const linkSchema = {
+  kind: 'object',
+  type: 'Link',
+  schema: {
+    label: { name: 'label', global: false, description: '', tags: [], required: true, type: 'string', schema: 'string' },
+    to: { name: 'to', global: false, description: '', tags: [], required: true, type: 'string', schema: 'string' }
+  }
+}
+
+const treeSchema = {
+  kind: 'object',
+  type: 'TreeNode',
+  schema: {
+    label: { name: 'label', global: false, description: '', tags: [], required: true, type: 'string', schema: 'string' },
+    children: {
+      name: 'children',
+      global: false,
+      description: '',
+      tags: [],
+      required: false,
+      type: 'TreeNode[] | undefined',
+      schema: {
+        kind: 'enum',
+        type: 'TreeNode[] | undefined',
+        schema: {
+          0: 'undefined',
+          1: { kind: 'array', type: 'TreeNode[]', schema: ['TreeNode'] }
+        }
+      }
+    }
+  }
+}
+
+const props = [
+  { name: 'link', global: false, description: 'Main link', tags: [], required: true, type: 'Link', schema: linkSchema },
+  { name: 'links', global: false, description: '', tags: [], required: false, type: 'Link[]', schema: { kind: 'array', type: 'Link[]', schema: [linkSchema] } },
+  { name: 'tree', global: false, description: '', tags: [], required: false, type: 'TreeNode | undefined', schema: { kind: 'enum', type: 'TreeNode | undefined', schema: { 0: 'undefined', 1: treeSchema } } }
+] as any
+
+describe('JSON Schema $defs', () => {
+  test('inlines named types by default', () => {
+    const schema = propsToJsonSchema(props)
+
+    expect(schema.$defs).toBeUndefined()
+    expect(schema.properties!.link).toMatchObject({ type: 'object', properties: { label: { type: 'string' } } })
+    expect(schema.properties!.links.items).toMatchObject({ type: 'object', properties: { to: { type: 'string' } } })
+  })
+
+  test('hoists named types into $defs', () => {
+    const schema = propsToJsonSchema(props, { refs: true })
+
+    expect(schema.properties!.link).toEqual({ description: 'Main link', $ref: '#/$defs/Link' })
+    expect(schema.properties!.links).toEqual({ type: 'array', items: { $ref: '#/$defs/Link' } })
+    expect(schema.$defs!.Link).toEqual({
+      type: 'object',
+      properties: { label: { type: 'string' }, to: { type: 'string' } },
+      additionalProperties: false,
+      required: ['label', 'to']
+    })
+  })
+
+  test('references recursive types', () => {
+    const schema = propsToJsonSchema(props, { refs: true })
+
+    expect(schema.properties!.tree).toEqual({ $ref: '#/$defs/TreeNode' })
+    expect(schema.$defs!.TreeNode.properties.children).toEqual({ type: 'array', items: { $ref: '#/$defs/TreeNode' } })
+
+    const validate = new Ajv().compile(schema)
+    expect(validate({
+      link: { label: 'Home', to: '/' },
+      tree: { label: 'root', children: [{ label: 'child', children: [{ label: 'leaf' }] }] }
+    })).toBe(true)
+    expect(validate({
+      link: { label: 'Home', to: '/' },
+      tree: { label: 'root', children: [{ children: [] }] }
+    })).toBe(false)
+  })
+
+  test('combines all components in a single document', () => {
+    const schema = componentsToJsonSchema({
+      UButton: { props: props.slice(0, 1) },
+      UNavigation: { props }
+    })
+
+    expect(Object.keys(schema.properties!)).toEqual(['UButton', 'UNavigation'])
+    expect(Object.keys(schema.$defs!)).toEqual(['Link', 'TreeNode'])
+    expect(schema.properties!.UButton.$defs).toBeUndefined()
+    expect(schema.properties!.UButton.properties.link.$ref).toBe('#/$defs/Link')
+
+    const validate = new Ajv().compile(schema)
+    expect(validate({ UButton: { link: { label: 'Home', to: '/' } } })).toBe(true)
+    expect(validate({ UButton: { link: { label: 'Home' } } })).toBe(false)
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, test, expect } from 'vitest'
+import { propsToJsonSchema, sinceTagMapper } from '../src/utils/schema'
+
+const props = [
+  {
+    name: 'count',
+    global: false,
+    description: 'Number of items',
+    tags: [{ name: 'minimum', text: '0' }, { name: 'maximum', text: '10' }, { name: 'since', text: 'v2.1.0' }],
+    required: false,
+    type: 'number | undefined',
+    schema: { kind: 'enum', type: 'number | undefined', schema: ['undefined', 'number'] }
+  },
+  {
+    name: 'slug',
+    global: false,
+    description: '',
+    tags: [{ name: 'pattern', text: '/^[a-z-]+$/' }, { name: 'example', text: '"hello-world"' }, { name: 'example', text: '```ts\n"nuxt"\n```' }],
+    required: true,
+    type: 'string',
+    schema: 'string'
+  },
+  {
+    name: 'email',
+    global: false,
+    description: '',
+    tags: [{ name: 'format', text: 'email' }, { name: 'deprecated', text: 'Use `contact` instead' }, { name: 'internal' }],
+    required: false,
+    type: 'string | undefined',
+    schema: { kind: 'enum', type: 'string | undefined', schema: ['undefined', 'string'] }
+  },
+  {
+    name: 'size',
+    global: false,
+    description: '',
+    tags: [],
+    required: false,
+    type: '{ width: number; } | undefined',
+    schema: {
+      kind: 'enum',
+      type: '{ width: number; } | undefined',
+      schema: ['undefined', {
+        kind: 'object',
+        type: '{ width: number; }',
+        schema: {
+          width: { name: 'width', global: false, description: '', tags: [{ name: 'minimum', text: '1' }], required: true, type: 'number', schema: 'number' }
+        }
+      }]
+    }
+  }
+] as any
+
+describe('JSDoc tags', () => {
+  test('should map documented tags onto JSON Schema keywords', () => {
+    const jsonSchema = propsToJsonSchema(props)
+
+    expect(jsonSchema.properties?.count).toEqual({
+      type: 'number',
+      description: 'Number of items',
+      minimum: 0,
+      maximum: 10
+    })
+    expect(jsonSchema.properties?.slug).toEqual({
+      type: 'string',
+      pattern: '^[a-z-]+$',
+      examples: ['hello-world', 'nuxt']
+    })
+    expect(jsonSchema.properties?.email).toEqual({
+      type: 'string',
+      format: 'email',
+      deprecated: true
+    })
+    expect(jsonSchema.properties?.size.properties.width).toEqual({ type: 'number', minimum: 1 })
+  })
+
+  test('should support custom and disabled tag mappers', () => {
+    const jsonSchema = propsToJsonSchema(props, {
+      tagMappers: {
+        internal: (schema) => {
+          schema['x-internal'] = true
+        },
+        since: sinceTagMapper,
+        deprecated: false
+      }
+    })
+
+    expect(jsonSchema.properties?.email['x-internal']).toBe(true)
+    expect(jsonSchema.properties?.email).not.toHaveProperty('deprecated')
+    expect(jsonSchema.properties?.count['x-since']).toBe('v2.1.0')
+  })
+
+  test('should run nested conversions with their own options', () => {
+    const link = {
+      name: 'link',
+      global: false,
+      description: '',
+      tags: [{ name: 'since', text: 'v1' }],
+      required: true,
+      type: 'Link',
+      schema: {
+        kind: 'object',
+        type: 'Link',
+        schema: {
+          to: { name: 'to', global: false, description: '', tags: [], required: true, type: 'string', schema: 'string' }
+        }
+      }
+    } as any
+
+    const jsonSchema = propsToJsonSchema([link], {
+      refs: true,
+      tagMappers: {
+        since: (schema) => {
+          // Nested conversion, without `refs` nor this mapper
+          schema['x-inline'] = propsToJsonSchema([link]).properties?.link
+        }
+      }
+    })
+
+    expect(jsonSchema.properties?.link).toMatchObject({
+      $ref: '#/$defs/Link',
+      'x-inline': { type: 'object', properties: { to: { type: 'string' } }, required: ['to'] }
+    })
+    expect(jsonSchema.properties?.link['x-inline']).not.toHaveProperty('$ref')
+    expect(Object.keys(jsonSchema.$defs!)).toEqual(['Link'])
+  })
+})
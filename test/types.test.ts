@@ -0,0 +1,124 @@
+import { describe, test, expect } from 'vitest'
+import Ajv from 'ajv'
+import { getComponentMeta } from '../src/parser'
+import { propsToJsonSchema } from '../src/utils/schema'
+
+describe('Tuple, Record and template literal support', () => {
+  const meta = getComponentMeta('playground/app/components/TypesTestComponent.vue')
+
+  test('should convert tuples', () => {
+    const jsonSchema = propsToJsonSchema(meta.props)
+
+    expect(jsonSchema.properties?.point).toEqual({
+      type: 'array',
+      items: [{ type: 'number' }, { type: 'number' }],
+      minItems: 2,
+      maxItems: 2,
+      description: 'A 2D point'
+    })
+
+    expect(jsonSchema.properties?.range).toEqual({
+      type: 'array',
+      items: [{ type: 'number' }, { type: 'number' }],
+      minItems: 1,
+      maxItems: 2,
+      description: 'A tuple with named and optional elements'
+    })
+
+    expect(jsonSchema.properties?.path).toEqual({
+      type: 'array',
+      items: [{ type: 'string' }],
+      minItems: 1,
+      additionalItems: { type: 'number' },
+      description: 'A tuple with a rest element'
+    })
+
+    const tupleSchema = propsToJsonSchema(meta.props, { dialect: '2020-12' })
+    expect(tupleSchema.properties?.path).toEqual({
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'number' },
+      minItems: 1,
+      description: 'A tuple with a rest element'
+    })
+  })
+
+  test('should convert records', () => {
+    const jsonSchema = propsToJsonSchema(meta.props)
+
+    expect(jsonSchema.properties?.counters).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'number' },
+      description: 'Counters keyed by name'
+    })
+
+    expect(jsonSchema.properties?.labels).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        subtitle: { type: 'string' }
+      },
+      required: ['title', 'subtitle'],
+      additionalProperties: false,
+      description: 'Labels for known keys'
+    })
+
+    // The value type of a Record is not expanded, it can only be referenced once hoisted
+    expect(jsonSchema.properties?.items).toEqual({
+      type: 'object',
+      additionalProperties: {},
+      description: 'Items keyed by id'
+    })
+  })
+
+  test('should convert template literal types to patterns', () => {
+    const jsonSchema = propsToJsonSchema(meta.props)
+
+    expect(jsonSchema.properties?.width).toEqual({
+      type: 'string',
+      pattern: '^-?\\d+(?:\\.\\d+)?px$',
+      description: 'A width in pixels'
+    })
+    expect(jsonSchema.properties?.size).toEqual({
+      anyOf: [
+        { type: 'string', pattern: '^-?\\d+(?:\\.\\d+)?px$' },
+        { type: 'string', pattern: '^-?\\d+(?:\\.\\d+)?%$' }
+      ],
+      description: 'A size in pixels or percents'
+    })
+  })
+
+  test('should convert Partial types of named types expanded in other props', () => {
+    const offset = {
+      type: 'object',
+      properties: { x: { type: 'number' }, y: { type: 'number' } },
+      additionalProperties: false,
+      description: 'A partial position'
+    }
+
+    expect(propsToJsonSchema(meta.props).properties?.offset).toEqual(offset)
+
+    const jsonSchema = propsToJsonSchema(meta.props, { refs: true })
+    expect(jsonSchema.properties?.position).toEqual({ $ref: '#/$defs/Position', description: 'A position' })
+    expect(jsonSchema.properties?.offset).toEqual(offset)
+
+    // Props are converted in order, `Partial<Position>` does not need `Position` to be converted first
+    const reversed = ['offset', 'position'].map(name => meta.props.find(prop => prop.name === name)!)
+    expect(propsToJsonSchema(reversed).properties?.offset).toEqual(offset)
+    expect(propsToJsonSchema(reversed, { refs: true }).properties?.offset).toEqual(offset)
+
+    // `Position` is not expanded anywhere
+    expect(propsToJsonSchema(reversed.slice(0, 1)).properties?.offset).toEqual({ type: 'object', description: 'A partial position' })
+  })
+
+  test('should validate data', () => {
+    const validate = new Ajv({ strictTuples: false }).compile(propsToJsonSchema(meta.props))
+
+    expect(validate({ point: [1, 2], range: [0], path: ['a', 1, 2], width: '10px', size: '50%', counters: { a: 1 }, labels: { title: 'a', subtitle: 'b' } })).toBe(true)
+    expect(validate({ point: [1] })).toBe(false)
+    expect(validate({ point: [1, 2], path: ['a', 'b'] })).toBe(false)
+    expect(validate({ point: [1, 2], width: '10em' })).toBe(false)
+    expect(validate({ point: [1, 2], counters: { a: 'b' } })).toBe(false)
+    expect(validate({ point: [1, 2], labels: { title: 'a' } })).toBe(false)
+  })
+})
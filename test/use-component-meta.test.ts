@@ -0,0 +1,111 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest'
+import { effectScope, nextTick, ref, watch } from 'vue'
+
+const nuxtApp: Record<string, any> = {}
+const runtimeConfig = { app: { baseURL: '/' }, public: { componentMeta: { runtimeSource: 'bundle' } } }
+const metas: Record<string, any> = {
+  TestButton: { pascalName: 'TestButton', meta: { props: [] } },
+  TestLabel: { pascalName: 'TestLabel', meta: { props: [] } }
+}
+const loadChunk = vi.fn((name: string) => Promise.resolve({ default: metas[name] }))
+
+vi.mock('#imports', () => ({
+  useNuxtApp: () => nuxtApp,
+  useRuntimeConfig: () => runtimeConfig,
+  // Refetch when the key changes, like Nuxt `useAsyncData` with a getter key
+  useAsyncData: async (key: () => string, handler: () => Promise<unknown>) => {
+    const data = ref<unknown>(await handler())
+    watch(key, async () => { data.value = await handler() })
+    return { data }
+  }
+}))
+vi.mock('#nuxt-component-meta', () => ({ default: metas }))
+vi.mock('#nuxt-component-meta/chunks', () => ({
+  default: Object.fromEntries(Object.keys(metas).map(name => [name, () => loadChunk(name)]))
+}))
+
+const { useComponentMeta } = await import('../src/runtime/composables/useComponentMeta')
+const { useComponentMetaQuery } = await import('../src/runtime/composables/useComponentMetaQuery')
+
+const flush = async () => {
+  await nextTick()
+  await new Promise(resolve => setTimeout(resolve))
+}
+
+describe('useComponentMeta', () => {
+  beforeEach(() => {
+    Reflect.deleteProperty(nuxtApp, '_componentMeta')
+    loadChunk.mockClear()
+    runtimeConfig.public.componentMeta.runtimeSource = 'bundle'
+  })
+
+  test('updates bundled metas when the component name changes', async () => {
+    const name = ref('TestButton')
+    const scope = effectScope()
+    const meta = await scope.run(() => useComponentMeta<string>(name as any))!
+
+    expect(meta.value.pascalName).toBe('TestButton')
+    expect(loadChunk).toHaveBeenCalledTimes(1)
+
+    name.value = 'TestLabel'
+    await flush()
+    expect(meta.value.pascalName).toBe('TestLabel')
+    expect(loadChunk).toHaveBeenCalledTimes(2)
+
+    // The watcher is stopped with its scope, e.g. on unmount
+    scope.stop()
+    Reflect.deleteProperty(nuxtApp._componentMeta, 'TestButton')
+    name.value = 'TestButton'
+    await flush()
+    expect(loadChunk).toHaveBeenCalledTimes(2)
+  })
+
+  test('refetches metas when the component name changes', async () => {
+    runtimeConfig.public.componentMeta.runtimeSource = 'api'
+    const fetch = vi.fn((url: string) => Promise.resolve(metas[url.split('/').pop()!]))
+    vi.stubGlobal('$fetch', fetch)
+
+    const name = ref('TestButton')
+    const meta = await useComponentMeta<string>(() => name.value as any)
+    expect(meta.value.pascalName).toBe('TestButton')
+
+    name.value = 'TestLabel'
+    await flush()
+    expect(meta.value.pascalName).toBe('TestLabel')
+    expect(fetch).toHaveBeenLastCalledWith('/api/component-meta/TestLabel')
+
+    vi.unstubAllGlobals()
+  })
+})
+
+describe('useComponentMetaQuery', () => {
+  beforeEach(() => {
+    Reflect.deleteProperty(nuxtApp, '_componentMeta')
+    runtimeConfig.public.componentMeta.runtimeSource = 'bundle'
+  })
+
+  test('filters bundled metas in the browser', async () => {
+    const components = await useComponentMetaQuery({ search: 'label' }, { fields: ['props'] })
+    expect(Object.keys(components.value)).toEqual(['TestLabel'])
+  })
+
+  test('sends the query and projection to the API route', async () => {
+    runtimeConfig.public.componentMeta.runtimeSource = 'api'
+    const fetch = vi.fn((_url: string, { query }: { query: Record<string, string> }) => Promise.resolve(
+      Object.fromEntries(Object.entries(metas).filter(([name]) => name.toLowerCase().includes(query.search!)))
+    ))
+    vi.stubGlobal('$fetch', fetch)
+
+    const search = ref('button')
+    const components = await useComponentMetaQuery(() => ({ search: search.value }), { fields: ['props.name'], schema: false })
+    expect(Object.keys(components.value)).toEqual(['TestButton'])
+    expect(fetch).toHaveBeenLastCalledWith('/api/component-meta', { query: { search: 'button', fields: 'props.name', schema: 'false' } })
+
+    search.value = 'label'
+    await flush()
+    expect(Object.keys(components.value)).toEqual(['TestLabel'])
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    vi.unstubAllGlobals()
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'vitest'
+import { propsToJsonSchema } from '../src/utils/schema'
+import { validateProps } from '../src/runtime/utils/validate-props'
+
+const props = [
+  { name: 'label', global: false, description: '', tags: [], required: true, type: 'string', schema: 'string' },
+  {
+    name: 'size',
+    global: false,
+    description: '',
+    tags: [],
+    required: false,
+    type: '"sm" | "md" | "lg" | undefined',
+    schema: { kind: 'enum', type: '"sm" | "md" | "lg" | undefined', schema: ['undefined', '"sm"', '"md"', '"lg"'] }
+  },
+  {
+    name: 'count',
+    global: false,
+    description: '',
+    tags: [{ name: 'minimum', text: '0' }],
+    required: false,
+    type: 'number | null | undefined',
+    schema: 'number | null | undefined'
+  },
+  {
+    name: 'link',
+    global: false,
+    description: '',
+    tags: [],
+    required: false,
+    type: '{ to: string; } | undefined',
+    schema: {
+      kind: 'enum',
+      type: '{ to: string; } | undefined',
+      schema: ['undefined', {
+        kind: 'object',
+        type: '{ to: string; }',
+        schema: {
+          to: { name: 'to', global: false, description: '', tags: [], required: true, type: 'string', schema: 'string' }
+        }
+      }]
+    }
+  }
+] as any
+
+const schema = propsToJsonSchema(props)
+
+describe('validateProps', () => {
+  test('accepts valid props', () => {
+    expect(validateProps(schema, { label: 'Save', size: 'md', count: null, link: { to: '/' } })).toEqual({ valid: true, errors: [] })
+  })
+
+  test('reports structured errors', () => {
+    const { valid, errors } = validateProps(schema, { size: 'xl', count: -1, link: { to: 1 } })
+
+    expect(valid).toBe(false)
+    expect(errors).toEqual([
+      { path: 'label', message: 'Missing required property `label`' },
+      { path: 'size', message: 'Expected one of "sm", "md", "lg" at `size`', allowed: ['sm', 'md', 'lg'] },
+      { path: 'count', message: 'Expected a number >= 0 at `count`' },
+      { path: 'link.to', message: 'Expected string at `link.to`, got number', expected: ['string'] }
+    ])
+  })
+
+  test('reports unknown properties of strict objects', () => {
+    const { errors } = validateProps({ type: 'object', properties: {}, additionalProperties: false }, { foo: true })
+
+    expect(errors).toEqual([{ path: 'foo', message: 'Unknown property `foo`' }])
+  })
+})
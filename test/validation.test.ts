@@ -1,8 +1,11 @@
 import { describe, expect, test } from "vitest";
 import { getComponentMeta } from "../src/parser";
 import { propsToJsonSchema } from "../src/utils/schema";
+import { propsToValibot, propsToZod } from "../src/utils/validators";
 import { jsonSchemaToZod } from "json-schema-to-zod";
 import Ajv from "ajv";
+import { z } from "zod";
+import * as v from "valibot";
 
 const validData = {
   name: 'test-component',
@@ -124,4 +127,96 @@ describe('validation', () => {
       expect(validate.errors!.length).toBeGreaterThan(0)
     })
   })
+
+  test('propsToZod', () => {
+    const meta = getComponentMeta('playground/app/components/TestComponent.vue')
+    const schema = propsToZod(meta.props, { z, strict: true })
+
+    expect(schema.parse(validData)).toStrictEqual(validData)
+    invalidTestCases.forEach(testCase => {
+      expect(schema.safeParse(testCase.data).success).toBe(false)
+    })
+  })
+
+  test('propsToValibot', () => {
+    const meta = getComponentMeta('playground/app/components/TestComponent.vue')
+    const schema = propsToValibot(meta.props, { v, strict: true })
+
+    expect(v.parse(schema, validData)).toStrictEqual(validData)
+    invalidTestCases.forEach(testCase => {
+      expect(v.safeParse(schema, testCase.data).success).toBe(false)
+    })
+  })
+})
+
+describe('validators', () => {
+  const props = [
+    { name: 'size', global: false, description: 'Button size', tags: [], required: false, type: '"sm" | "md" | "lg" | undefined', schema: { kind: 'enum', type: '"sm" | "md" | "lg" | undefined', schema: ['undefined', '"sm"', '"md"', '"lg"'] } },
+    { name: 'label', global: false, description: '', tags: [], required: true, type: 'string | null', schema: { kind: 'enum', type: 'string | null', schema: ['string', 'null'] } },
+    { name: 'value', global: false, description: '', tags: [], required: false, type: 'string | number | undefined', schema: 'string | number | undefined' },
+    { name: 'onClick', global: false, description: '', tags: [], required: false, type: '((event: MouseEvent) => void) | undefined', schema: { kind: 'enum', type: '((event: MouseEvent) => void) | undefined', schema: ['undefined', { kind: 'event', type: '(event: MouseEvent): void', schema: [] }] } }
+  ] as any
+
+  test('keeps enum literals and unions', () => {
+    const schema = propsToZod(props, { z })
+
+    expect(Object.keys(schema.shape)).toEqual(['size', 'label', 'value'])
+    expect(schema.safeParse({ size: 'md', label: null, value: 1 }).success).toBe(true)
+    expect(schema.safeParse({ size: 'xl', label: 'a' }).success).toBe(false)
+    expect(schema.safeParse({ label: 'a', value: true }).success).toBe(false)
+  })
+
+  test('validates tuples, records and template literals', () => {
+    const props = [
+      { name: 'size', global: false, description: '', tags: [], required: true, type: '`${number}px`', schema: '`${number}px`' },
+      { name: 'attrs', global: false, description: '', tags: [], required: false, type: 'Record<string, string> | undefined', schema: { kind: 'enum', type: 'Record<string, string> | undefined', schema: ['undefined', 'Record<string, string>'] } },
+      { name: 'data', global: false, description: '', tags: [], required: false, type: 'Record<`data-${string}`, number> | undefined', schema: 'Record<`data-${string}`, number> | undefined' },
+      { name: 'point', global: false, description: '', tags: [], required: false, type: '[number, number] | undefined', schema: { kind: 'enum', type: '[number, number] | undefined', schema: ['undefined', { kind: 'array', type: '[number, number]', schema: ['number', 'number'] }] } },
+      { name: 'entry', global: false, description: '', tags: [], required: false, type: '[string, ...number[]] | undefined', schema: { kind: 'enum', type: '[string, ...number[]] | undefined', schema: ['undefined', { kind: 'array', type: '[string, ...number[]]', schema: ['string', 'number'] }] } }
+    ] as any
+    const valid = { size: '10px', attrs: { id: 'a' }, data: { 'data-index': 1 }, point: [1, 2], entry: ['a', 1, 2] }
+    const invalid = [
+      { size: 'nope' },
+      { size: '10px', attrs: { id: 1 } },
+      { size: '10px', data: { index: 1 } },
+      { size: '10px', point: [1, 2, 3] },
+      { size: '10px', point: [1, 'a'] },
+      { size: '10px', entry: ['a', 'b'] }
+    ]
+
+    const zodSchema = propsToZod(props, { z })
+    expect(zodSchema.safeParse(valid).success).toBe(true)
+    invalid.forEach(data => expect(zodSchema.safeParse(data).success).toBe(false))
+
+    const valibotSchema = propsToValibot(props, { v, strict: true })
+    expect(v.safeParse(valibotSchema, valid).success).toBe(true)
+    invalid.forEach(data => expect(v.safeParse(valibotSchema, data).success).toBe(false))
+
+    expect(propsToZod(props.slice(0, 4))).toBe([
+      'z.object({',
+      '  size: z.string().regex(/^-?\\d+(?:\\.\\d+)?px$/),',
+      '  attrs: z.record(z.string(), z.string()).optional(),',
+      '  data: z.record(z.string().regex(/^data-.*$/), z.number()).optional(),',
+      '  point: z.tuple([z.number(), z.number()]).optional()',
+      '})'
+    ].join('\n'))
+  })
+
+  test('generates source code', () => {
+    expect(propsToZod(props)).toBe([
+      'z.object({',
+      '  size: z.enum(["sm", "md", "lg"]).optional().describe("Button size"),',
+      '  label: z.string().nullable(),',
+      '  value: z.union([z.string(), z.number()]).optional()',
+      '})'
+    ].join('\n'))
+
+    expect(propsToValibot(props, { strict: true })).toBe([
+      'v.strictObject({',
+      '  size: v.pipe(v.optional(v.picklist(["sm", "md", "lg"])), v.description("Button size")),',
+      '  label: v.nullable(v.string()),',
+      '  value: v.optional(v.union([v.string(), v.number()]))',
+      '})'
+    ].join('\n'))
+  })
 })
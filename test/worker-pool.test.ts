@@ -0,0 +1,82 @@
+import { describe, test, expect, vi, afterEach, beforeEach } from 'vitest'
+import { join } from 'path'
+import { Worker } from 'worker_threads'
+import { logger } from '@nuxt/kit'
+import { useComponentMetaParser } from '../src/parser/meta-parser'
+import { parseInWorkers } from '../src/parser/worker-pool'
+
+// Run the worker entry from source through jiti, as `dist/worker.mjs` is only available once the module is built
+const sourceWorkerPath = join(process.cwd(), 'test/fixtures/workers/source.mjs')
+const worker = vi.hoisted(() => ({ path: '' }))
+
+vi.mock('../src/parser/worker-pool', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/parser/worker-pool')>(),
+  resolveWorkerPath: () => worker.path
+}))
+
+describe('parallel parsing', () => {
+  const rootDir = join(process.cwd(), 'playground')
+
+  const createParser = () => useComponentMetaParser({
+    rootDir,
+    outputDir: join(process.cwd(), 'node_modules/.cache/nuxt-component-meta-test-workers'),
+    componentDirs: [join(rootDir, 'app/components/global')],
+    components: ['TestButton', 'TestGlobalComponent'].map(name => ({
+      pascalName: name,
+      kebabName: name,
+      filePath: join(rootDir, `app/components/global/${name}.vue`)
+    }) as any),
+    metaFields: { type: true, props: true, slots: true, events: true, exposed: true },
+    overrides: {},
+    concurrency: 2
+  })
+
+  beforeEach(() => {
+    worker.path = sourceWorkerPath
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  test('should parse components in worker threads', { timeout: 60000 }, async () => {
+    const warn = vi.spyOn(logger, 'warn')
+    const parser = createParser()
+    await parser.init()
+    await parser.fetchComponents()
+
+    expect(warn).not.toHaveBeenCalled()
+    // The main thread checker is only created when parsing serially
+    expect(parser.checker).toBeUndefined()
+    expect(parser.getFailedComponents()).toEqual([])
+    expect((parser.components.TestButton as any).meta.props.map((prop: any) => prop.name)).toContain('size')
+    expect((parser.components.TestGlobalComponent as any).meta.props.map((prop: any) => prop.name)).toContain('hello')
+    parser.dispose()
+  })
+
+  test('should record a default diagnostic for failures without error', { timeout: 20000 }, async () => {
+    worker.path = join(process.cwd(), 'test/fixtures/workers/empty.mjs')
+    const parser = createParser()
+    await parser.init()
+    await parser.fetchComponents()
+
+    expect(parser.components.TestButton!.diagnostics).toMatchObject([{
+      message: 'Worker failed to parse component',
+      phase: 'checker'
+    }])
+    parser.dispose()
+  })
+
+  test('should terminate every worker when one of them fails', async () => {
+    const terminate = vi.spyOn(Worker.prototype, 'terminate')
+
+    await expect(parseInWorkers(
+      join(process.cwd(), 'test/fixtures/workers/failing.mjs'),
+      [{ resolvedPath: 'fail' }, { resolvedPath: 'pending' }],
+      { rootDir },
+      2
+    )).rejects.toThrowError('Worker crashed')
+
+    expect(terminate).toHaveBeenCalledTimes(2)
+  })
+})